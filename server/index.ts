@@ -0,0 +1,435 @@
+import { createServer } from 'http';
+import { randomBytes } from 'crypto';
+import { Server, Socket } from 'socket.io';
+import { RoomManager, ServerRoom } from './rooms';
+import {
+  createRoomRequestSchema,
+  emitEvent,
+  EventPayload,
+  joinRoomRequestSchema,
+  JoinRoomResult,
+  onEvent,
+  ProtocolEvent,
+  ROOM_EVENTS,
+  RoomListing,
+  SEAT_GRACE_PERIOD_MS,
+  SERVER_EVENTS,
+  SessionInfo
+} from '../src/lib/protocol';
+import { redactGameState, redactGameStateDelta } from '../src/lib/secrets';
+import { normalizeLifetime, ROOM_SWEEP_INTERVAL_MS } from '../src/lib/room-lifecycle';
+import { getSeatedClients } from '../src/lib/spectators';
+import { TurnRef } from '../src/lib/turn-timer';
+import { isChatOpen } from '../src/lib/discussion';
+
+const PORT = Number(process.env.PORT) || 3001;
+const CORS_ORIGIN = process.env.CORS_ORIGIN || '*';
+// Unset or invalid values fall back to the defaults in lib/room-lifecycle.ts
+const ROOM_LIFETIME = normalizeLifetime({
+  idleTimeoutMs: Number(process.env.ROOM_IDLE_TIMEOUT_MS),
+  maxAgeMs: Number(process.env.ROOM_MAX_AGE_MS)
+});
+
+const httpServer = createServer((req, res) => {
+  // Plain HTTP health check, everything else goes through socket.io
+  res.writeHead(200, { 'Content-Type': 'text/plain' });
+  res.end('Kaun Artist game server');
+});
+
+const io = new Server(httpServer, {
+  cors: { origin: CORS_ORIGIN }
+});
+
+const rooms = new RoomManager(ROOM_LIFETIME);
+
+// Session token -> public client id. Rooms only ever see client ids, so a
+// client keeps its seat when it comes back on a new socket.
+const sessions = new Map<string, string>();
+// Public client id -> session token, to forget the session along with the seat
+const sessionTokens = new Map<string, string>();
+const seatTimers = new Map<string, ReturnType<typeof setTimeout>>();
+// Room id -> timer ending the drawing turn being played
+const turnTimers = new Map<string, ReturnType<typeof setTimeout>>();
+
+// Every socket of a client joins this channel so we can address the client
+const clientChannel = (clientId: string) => `client:${clientId}`;
+
+const getClientId = (socket: Socket): string => socket.data.clientId;
+
+const resolveClientId = (socket: Socket): string => {
+  const token = socket.handshake.auth?.token;
+  const known = typeof token === 'string' ? sessions.get(token) : undefined;
+  if (known) return known;
+
+  const clientId = `user-${randomBytes(6).toString('hex')}`;
+  if (typeof token === 'string') {
+    sessions.set(token, clientId);
+    sessionTokens.set(clientId, token);
+  }
+  return clientId;
+};
+
+const isConnected = (clientId: string): boolean => (
+  (io.sockets.adapter.rooms.get(clientChannel(clientId))?.size || 0) > 0
+);
+
+// A client with neither a seat nor a socket has nothing to come back to
+const forgetSession = (clientId: string) => {
+  if (isConnected(clientId) || rooms.getRoomForClient(clientId)) return;
+
+  const token = sessionTokens.get(clientId);
+  if (token !== undefined) sessions.delete(token);
+  sessionTokens.delete(clientId);
+};
+
+const clearSeatTimer = (clientId: string) => {
+  clearTimeout(seatTimers.get(clientId));
+  seatTimers.delete(clientId);
+};
+
+const clearTurnTimer = (roomId: string) => {
+  clearTimeout(turnTimers.get(roomId));
+  turnTimers.delete(roomId);
+};
+
+// Time the drawing turn being played after the game state changed. Only the
+// server ends timed turns, so every client sees them end at the same moment.
+const syncTurnTimer = (room: ServerRoom) => {
+  const started = rooms.syncTurnDeadline(room.id);
+  if (!room.turnDeadline) {
+    clearTurnTimer(room.id);
+    return;
+  }
+  if (!started) return;
+
+  clearTurnTimer(room.id);
+  turnTimers.set(room.id, setTimeout(() => handleTurnTimeout(room.id, started), started.deadline - Date.now()));
+  emitEvent(io.to(room.id), SERVER_EVENTS.turnTimer, { roomId: room.id, ...started, serverTime: Date.now() });
+};
+
+// The server moves the game on itself and sends the change to everyone,
+// the host included
+const handleTurnTimeout = (roomId: string, turn: TurnRef) => {
+  turnTimers.delete(roomId);
+
+  const delta = rooms.expireTurn(roomId, turn);
+  const room = rooms.getRoom(roomId);
+  if (!delta || !room?.gameState) return;
+
+  emitEvent(io.to(room.id), SERVER_EVENTS.turnExpired, { roomId: room.id, phase: turn.phase, round: turn.round, turn: turn.turn, drawerId: turn.drawerId });
+  const state = room.gameState;
+  sendToOthers(room, null, SERVER_EVENTS.gameStateDelta, (recipient) => (
+    redactGameStateDelta(delta, state, recipient)
+  ));
+  syncTurnTimer(room);
+};
+
+const handleLeave = (clientId: string) => {
+  clearSeatTimer(clientId);
+
+  const result = rooms.leaveRoom(clientId);
+  forgetSession(clientId);
+  if (!result) return;
+
+  io.in(clientChannel(clientId)).socketsLeave(result.room.id);
+
+  // The last player is gone; send any spectators home
+  if (result.removed) {
+    result.room.clients.forEach(clearSeatTimer);
+    clearTurnTimer(result.room.id);
+    emitEvent(io.to(result.room.id), SERVER_EVENTS.roomExpired, { roomId: result.room.id, reason: 'abandoned' });
+    io.in(result.room.id).socketsLeave(result.room.id);
+    result.room.clients.forEach(forgetSession);
+    return;
+  }
+
+  // The new host takes over the game before anyone hears who left, so it
+  // is already in charge of what happens to their seat
+  const room = result.room;
+  const state = room.gameState;
+  if (result.newHost) {
+    emitEvent(io.to(room.id), SERVER_EVENTS.hostChanged, {
+      roomId: room.id,
+      hostId: result.newHost,
+      previousHostId: clientId
+    });
+    if (state) {
+      sendToOthers(room, null, SERVER_EVENTS.gameStateSnapshot, (recipient) => ({
+        roomId: room.id,
+        state: redactGameState(state, recipient)
+      }));
+    }
+    syncTurnTimer(room);
+  }
+
+  emitEvent(io.to(room.id), SERVER_EVENTS.playerLeft, {
+    roomId: room.id,
+    clientId,
+    totalPlayers: getSeatedClients(room).length,
+    isSpectator: result.wasSpectator
+  });
+};
+
+// Send the stored game state to a client, along with the clock of a timed
+// turn, or ask the host for it when the server does not have an up-to-date
+// copy
+const sendGameState = (socket: Socket) => {
+  const clientId = getClientId(socket);
+  const roomId = rooms.getRoomForClient(clientId);
+  const room = roomId ? rooms.getRoom(roomId) : undefined;
+  if (!room) return;
+
+  if (room.gameState) {
+    const state = redactGameState(room.gameState, clientId);
+    emitEvent(socket, SERVER_EVENTS.gameStateSnapshot, { roomId: room.id, state });
+    if (room.turnDeadline) {
+      emitEvent(socket, SERVER_EVENTS.turnTimer, { roomId: room.id, ...room.turnDeadline, serverTime: Date.now() });
+    }
+  } else if (room.host !== clientId) {
+    emitEvent(io.to(clientChannel(room.host)), SERVER_EVENTS.requestGameState, { roomId: room.id });
+  }
+};
+
+// Clients only hear about a lock while they are in the room, so anyone
+// arriving is told whether it is locked
+const sendRoomLock = (socket: Socket, room: ServerRoom) => {
+  if (room.isLocked) {
+    emitEvent(socket, SERVER_EVENTS.roomLocked, { roomId: room.id, locked: true });
+  }
+};
+
+// Game state goes out to each client separately, redacted for that client.
+// A null sender sends to every client in the room.
+const sendToOthers = <E extends ProtocolEvent>(
+  room: ServerRoom,
+  senderId: string | null,
+  event: E,
+  build: (clientId: string) => EventPayload<E>
+) => {
+  for (const clientId of room.clients) {
+    if (clientId === senderId) continue;
+    emitEvent(io.to(clientChannel(clientId)), event, build(clientId));
+  }
+};
+
+io.on('connection', (socket) => {
+  const clientId = resolveClientId(socket);
+  socket.data.clientId = clientId;
+  socket.join(clientChannel(clientId));
+
+  console.log(`[GameServer] Client ${clientId} connected`);
+
+  // Reclaim a seat held since the client's last connection dropped
+  const heldRoomId = rooms.getRoomForClient(clientId) || null;
+  if (heldRoomId) {
+    clearSeatTimer(clientId);
+    rooms.markConnected(clientId);
+    socket.join(heldRoomId);
+    emitEvent(socket.to(heldRoomId), SERVER_EVENTS.playerReconnected, { roomId: heldRoomId, clientId });
+  }
+
+  const session: SessionInfo = { clientId, roomId: heldRoomId, isSpectator: rooms.isSpectator(clientId) };
+  emitEvent(socket, SERVER_EVENTS.session, session);
+
+  if (heldRoomId) {
+    sendRoomLock(socket, rooms.getRoom(heldRoomId)!);
+    sendGameState(socket);
+  }
+
+  socket.on(SERVER_EVENTS.createRoom, (request: unknown, callback: (roomId: string) => void) => {
+    if (typeof callback !== 'function') return;
+
+    const parsed = createRoomRequestSchema.safeParse(request);
+    if (!parsed.success) {
+      console.warn(`[GameServer] Rejected malformed ${SERVER_EVENTS.createRoom} from ${clientId}`);
+      return;
+    }
+
+    handleLeave(clientId);
+    const room = rooms.createRoom(clientId, parsed.data);
+    socket.join(room.id);
+    callback(room.id);
+  });
+
+  socket.on(SERVER_EVENTS.joinRoom, (request: unknown, callback: (result: JoinRoomResult) => void) => {
+    if (typeof callback !== 'function') return;
+
+    const parsed = joinRoomRequestSchema.safeParse(request);
+    if (!parsed.success) {
+      console.warn(`[GameServer] Rejected malformed ${SERVER_EVENTS.joinRoom} from ${clientId}`);
+      callback('not-found');
+      return;
+    }
+    const { roomId: roomToJoin, passphrase, spectate } = parsed.data;
+
+    if (rooms.getRoomForClient(clientId) !== roomToJoin) {
+      handleLeave(clientId);
+    }
+
+    const result = rooms.joinRoom(clientId, roomToJoin, passphrase, spectate);
+    if (result === 'joined') {
+      socket.join(roomToJoin);
+      emitEvent(io.to(roomToJoin), SERVER_EVENTS.playerJoined, {
+        roomId: roomToJoin,
+        clientId,
+        totalPlayers: getSeatedClients(rooms.getRoom(roomToJoin)!).length,
+        isSpectator: rooms.isSpectator(clientId)
+      });
+    }
+
+    callback(result);
+
+    // Late joiners start from the current game state
+    if (result === 'joined') {
+      sendRoomLock(socket, rooms.getRoom(roomToJoin)!);
+      sendGameState(socket);
+    }
+  });
+
+  socket.on(SERVER_EVENTS.listRooms, (callback: (rooms: RoomListing[]) => void) => {
+    if (typeof callback !== 'function') return;
+
+    callback(rooms.listPublicRooms());
+  });
+
+  onEvent(socket, SERVER_EVENTS.leaveRoom, () => handleLeave(clientId));
+
+  // Drawing actions are rebroadcast under a different name, same as the
+  // mock, and kept in case the turn runs out. Spectators only watch.
+  onEvent(socket, SERVER_EVENTS.drawingAction, (data) => {
+    const roomId = rooms.getRoomForClient(clientId);
+    if (!roomId || data.roomId !== roomId || rooms.isSpectator(clientId)) return;
+
+    rooms.recordActivity(clientId);
+    if (!rooms.recordTurnStroke(clientId, data)) return;
+    emitEvent(socket.to(roomId), SERVER_EVENTS.drawingUpdate, data);
+  });
+
+  onEvent(socket, SERVER_EVENTS.gameStateSnapshot, (snapshot) => {
+    if (!rooms.setGameState(clientId, snapshot)) return;
+
+    const room = rooms.getRoom(snapshot.roomId)!;
+    sendToOthers(room, clientId, SERVER_EVENTS.gameStateSnapshot, (recipient) => ({
+      roomId: room.id,
+      state: redactGameState(snapshot.state, recipient)
+    }));
+    syncTurnTimer(room);
+  });
+
+  onEvent(socket, SERVER_EVENTS.gameStateDelta, (delta) => {
+    const status = rooms.applyGameStateDelta(clientId, delta);
+    if (status === 'rejected') return;
+
+    // Without a full copy we cannot tell what to hide, so clients wait for
+    // the snapshot the host is about to send
+    if (status === 'resync') {
+      emitEvent(socket, SERVER_EVENTS.requestGameState, { roomId: delta.roomId });
+      return;
+    }
+
+    const room = rooms.getRoom(delta.roomId)!;
+    const state = room.gameState!;
+    if (status === 'conflict') {
+      sendToOthers(room, null, SERVER_EVENTS.gameStateSnapshot, (recipient) => ({
+        roomId: room.id,
+        state: redactGameState(state, recipient)
+      }));
+      return;
+    }
+
+    sendToOthers(room, clientId, SERVER_EVENTS.gameStateDelta, (recipient) => (
+      redactGameStateDelta(delta, state, recipient)
+    ));
+    syncTurnTimer(room);
+  });
+
+  onEvent(socket, SERVER_EVENTS.requestGameState, () => sendGameState(socket));
+
+  // Everyone hears about a kick, including the client being removed
+  onEvent(socket, SERVER_EVENTS.kickPlayer, (data) => {
+    const room = rooms.kickClient(clientId, data.roomId, data.clientId, data.ban);
+    if (!room) return;
+
+    emitEvent(io.to(room.id), SERVER_EVENTS.playerKicked, {
+      roomId: room.id,
+      clientId: data.clientId,
+      banned: data.ban
+    });
+    handleLeave(data.clientId);
+  });
+
+  onEvent(socket, SERVER_EVENTS.lockRoom, (data) => {
+    const room = rooms.setLocked(clientId, data.roomId, data.locked);
+    if (!room) return;
+
+    emitEvent(io.to(room.id), SERVER_EVENTS.roomLocked, { roomId: room.id, locked: data.locked });
+  });
+
+  // The new host gets the full game state, everyone else the state under
+  // its new host
+  onEvent(socket, SERVER_EVENTS.transferHost, (data) => {
+    const room = rooms.transferHost(clientId, data.roomId, data.clientId);
+    if (!room) return;
+
+    emitEvent(io.to(room.id), SERVER_EVENTS.hostChanged, {
+      roomId: room.id,
+      hostId: room.host,
+      previousHostId: clientId
+    });
+
+    const state = room.gameState;
+    if (state) {
+      sendToOthers(room, null, SERVER_EVENTS.gameStateSnapshot, (recipient) => ({
+        roomId: room.id,
+        state: redactGameState(state, recipient)
+      }));
+    }
+  });
+
+  // Player actions are relayed to the rest of the sender's room. Spectators
+  // have no player to act for, and chat is closed outside the discussion.
+  for (const event of ROOM_EVENTS) {
+    onEvent(socket, event, (data) => {
+      const roomId = rooms.getRoomForClient(clientId);
+      if (!roomId || data.roomId !== roomId || rooms.isSpectator(clientId)) return;
+      if (event === 'player-chat' && !isChatOpen(rooms.getRoom(roomId)?.gameState)) return;
+
+      rooms.recordActivity(clientId);
+      emitEvent(socket.to(roomId), event, { ...data, senderId: clientId });
+    });
+  }
+
+  // Hold the seat for a while instead of leaving straight away, so a refresh
+  // or a flaky connection does not cost the player their place in the game
+  socket.on('disconnect', () => {
+    console.log(`[GameServer] Client ${clientId} disconnected`);
+
+    const room = isConnected(clientId) ? undefined : rooms.markDisconnected(clientId);
+    if (!room) {
+      forgetSession(clientId);
+      return;
+    }
+
+    emitEvent(io.to(room.id), SERVER_EVENTS.playerDisconnected, { roomId: room.id, clientId });
+
+    seatTimers.set(clientId, setTimeout(() => {
+      console.log(`[GameServer] Seat for client ${clientId} expired`);
+      handleLeave(clientId);
+    }, SEAT_GRACE_PERIOD_MS));
+  });
+});
+
+// Close rooms nobody is using any more and send their clients home
+setInterval(() => {
+  for (const { room, reason } of rooms.expireRooms()) {
+    room.clients.forEach(clearSeatTimer);
+    clearTurnTimer(room.id);
+    emitEvent(io.to(room.id), SERVER_EVENTS.roomExpired, { roomId: room.id, reason });
+    io.in(room.id).socketsLeave(room.id);
+    room.clients.forEach(forgetSession);
+  }
+}, ROOM_SWEEP_INTERVAL_MS);
+
+httpServer.listen(PORT, () => {
+  console.log(`[GameServer] Listening on port ${PORT}`);
+});
@@ -0,0 +1,408 @@
+import { JoinRoomResult, MAX_ROOM_CLIENTS, MAX_ROOM_SPECTATORS, RoomListing } from '../src/lib/protocol';
+import {
+  getRoomExpiry,
+  pruneExpiredRooms,
+  recordRoomActivity,
+  RoomExpiryReason,
+  RoomLifetime
+} from '../src/lib/room-lifecycle';
+import { applyDelta, applyPatch, isCurrentDrawer } from '../src/lib/game-state';
+import { canTransferHost, migrateHost, withHost } from '../src/lib/moderation';
+import {
+  checkPassphrase,
+  describeRoom,
+  normalizeRoomAccess,
+  RoomAccess,
+  sortRoomListings
+} from '../src/lib/room-directory';
+import { getSeatedClients, getSpectatorCount, isSpectator } from '../src/lib/spectators';
+import {
+  getTurnDeadline,
+  getTurnTimeoutPatch,
+  recordTurnStroke,
+  TurnDeadline,
+  TurnRef,
+  TurnStrokes
+} from '../src/lib/turn-timer';
+import { DrawingAction, GameRoom, GameStateDelta, GameStateSnapshot } from '../src/types/game';
+
+export interface ServerRoom extends RoomAccess {
+  id: string;
+  // Everyone in the room, spectators included
+  clients: string[];
+  spectators: string[];
+  host: string;
+  // Clients whose connection dropped, by the time it happened. Their seat is
+  // held until the grace period runs out.
+  disconnectedAt: Record<string, number>;
+  // Latest copy of the host's game state, handed to joiners and resyncs
+  gameState?: GameRoom;
+  // Clock of the timed drawing turn being played
+  turnDeadline?: TurnDeadline;
+  // What the drawer has streamed this turn, to end the turn with if it runs
+  // out of time
+  turnStrokes?: TurnStrokes;
+  createdAt: number;
+  lastActivityAt: number;
+  // Clients the host banned, who cannot join again
+  banned: string[];
+  // A locked room only lets its current clients back in
+  isLocked: boolean;
+}
+
+export interface LeaveResult {
+  room: ServerRoom;
+  removed: boolean;
+  // Whether the client who left was only watching
+  wasSpectator: boolean;
+  newHost?: string;
+}
+
+export interface ExpiredRoom {
+  room: ServerRoom;
+  reason: RoomExpiryReason;
+}
+
+// In-memory room bookkeeping for the game server. Mirrors the rules of the
+// mock SocketServer in src/lib/socket-mock.ts so both behave the same.
+export class RoomManager {
+  private rooms = new Map<string, ServerRoom>();
+  private clientRooms = new Map<string, string>();
+  // Ids of closed rooms, by the time they closed
+  private expiredRooms = new Map<string, number>();
+
+  constructor(private lifetime: RoomLifetime) {}
+
+  // Generate a random 6-character room ID that is not already in use
+  private generateRoomId(): string {
+    const chars = 'ABCDEFGHJKLMNPQRSTUVWXYZ123456789'; // No O, 0, I to avoid confusion
+    let result = '';
+    do {
+      result = '';
+      for (let i = 0; i < 6; i++) {
+        result += chars.charAt(Math.floor(Math.random() * chars.length));
+      }
+    } while (this.rooms.has(result) || this.expiredRooms.has(result));
+    return result;
+  }
+
+  // Create a new room hosted by the given client
+  public createRoom(clientId: string, access?: Partial<RoomAccess>): ServerRoom {
+    const now = Date.now();
+    const room: ServerRoom = {
+      ...normalizeRoomAccess(access),
+      id: this.generateRoomId(),
+      clients: [clientId],
+      spectators: [],
+      host: clientId,
+      disconnectedAt: {},
+      createdAt: now,
+      lastActivityAt: now,
+      banned: [],
+      isLocked: false
+    };
+
+    this.rooms.set(room.id, room);
+    this.clientRooms.set(clientId, room.id);
+
+    console.log(`[GameServer] ${room.visibility} room ${room.id} created by client ${clientId}`);
+    return room;
+  }
+
+  // Join an existing room, taking a seat or only watching. A room that is
+  // due to close counts as expired even if the next sweep has not closed it
+  // yet.
+  public joinRoom(clientId: string, roomId: string, passphrase?: string, spectate = false): JoinRoomResult {
+    const room = this.rooms.get(roomId);
+
+    if (!room) {
+      const expired = this.expiredRooms.has(roomId);
+      console.log(`[GameServer] Room ${roomId} ${expired ? 'has expired' : 'does not exist'}`);
+      return expired ? 'expired' : 'not-found';
+    }
+
+    if (getRoomExpiry(room, this.lifetime)) {
+      console.log(`[GameServer] Room ${roomId} has expired`);
+      return 'expired';
+    }
+
+    if (room.clients.includes(clientId)) {
+      recordRoomActivity(room);
+      return 'joined';
+    }
+
+    if (room.banned.includes(clientId)) {
+      console.log(`[GameServer] Client ${clientId} is banned from room ${roomId}`);
+      return 'banned';
+    }
+
+    if (room.isLocked) {
+      console.log(`[GameServer] Room ${roomId} is locked`);
+      return 'locked';
+    }
+
+    const isFull = spectate
+      ? getSpectatorCount(room) >= MAX_ROOM_SPECTATORS
+      : getSeatedClients(room).length >= MAX_ROOM_CLIENTS;
+    if (isFull) {
+      console.log(`[GameServer] Room ${roomId} has no room for another ${spectate ? 'spectator' : 'player'}`);
+      return 'full';
+    }
+
+    const access = checkPassphrase(room, passphrase);
+    if (access !== 'ok') {
+      console.log(`[GameServer] Client ${clientId} gave no or the wrong passphrase for room ${roomId}`);
+      return access;
+    }
+
+    room.clients.push(clientId);
+    if (spectate) room.spectators.push(clientId);
+    this.clientRooms.set(clientId, roomId);
+    recordRoomActivity(room);
+
+    console.log(`[GameServer] Client ${clientId} joined room ${roomId}${spectate ? ' as a spectator' : ''}`);
+    return 'joined';
+  }
+
+  // Remove a client from its room, handing the game over to a new host, or
+  // deleting the room once no players are left. Spectators left behind in a deleted room
+  // are still in `room.clients`, for the caller to send home.
+  public leaveRoom(clientId: string): LeaveResult | null {
+    const roomId = this.clientRooms.get(clientId);
+    const room = roomId ? this.rooms.get(roomId) : undefined;
+
+    this.clientRooms.delete(clientId);
+    if (!room) {
+      return null;
+    }
+
+    const wasSpectator = isSpectator(room, clientId);
+    room.clients = room.clients.filter(id => id !== clientId);
+    room.spectators = room.spectators.filter(id => id !== clientId);
+    delete room.disconnectedAt[clientId];
+    recordRoomActivity(room);
+    console.log(`[GameServer] Client ${clientId} left room ${room.id}`);
+
+    const seated = getSeatedClients(room);
+    if (seated.length === 0) {
+      this.rooms.delete(room.id);
+      room.clients.forEach(id => this.clientRooms.delete(id));
+      console.log(`[GameServer] Room ${room.id} removed (no players left)`);
+      return { room, removed: true, wasSpectator };
+    }
+
+    if (room.host === clientId) {
+      room.host = seated[0];
+      console.log(`[GameServer] New host for room ${room.id}: ${room.host}`);
+      if (room.gameState) {
+        room.gameState = migrateHost(room.gameState, clientId, room.host);
+      } else {
+        console.warn(`[GameServer] Room ${room.id} has no game state to hand over`);
+      }
+      return { room, removed: false, wasSpectator, newHost: room.host };
+    }
+
+    return { room, removed: false, wasSpectator };
+  }
+
+  // Hold the seat of a client whose connection dropped
+  public markDisconnected(clientId: string): ServerRoom | undefined {
+    const room = this.rooms.get(this.clientRooms.get(clientId) || '');
+    if (!room) return undefined;
+
+    room.disconnectedAt[clientId] = Date.now();
+    console.log(`[GameServer] Holding seat for client ${clientId} in room ${room.id}`);
+    return room;
+  }
+
+  // A client with a held seat is back
+  public markConnected(clientId: string): ServerRoom | undefined {
+    const room = this.rooms.get(this.clientRooms.get(clientId) || '');
+    if (!room) return undefined;
+
+    delete room.disconnectedAt[clientId];
+    console.log(`[GameServer] Client ${clientId} reclaimed its seat in room ${room.id}`);
+    return room;
+  }
+
+  // Replace the stored game state; only the room host may do this
+  public setGameState(clientId: string, snapshot: GameStateSnapshot): boolean {
+    const room = this.getHostedRoom(clientId, snapshot?.roomId);
+    if (!room || !snapshot.state) return false;
+
+    room.gameState = snapshot.state;
+    recordRoomActivity(room);
+    return true;
+  }
+
+  // Apply a host delta to the stored game state. A delta that does not
+  // follow the stored version drops the stored copy, and the caller should
+  // ask the host for a fresh snapshot. A delta the server has already
+  // overtaken with a change of its own (a turn ran out) is dropped instead,
+  // and the stored copy comes back as a newer version for the caller to
+  // send to everyone, the host included.
+  public applyGameStateDelta(clientId: string, delta: GameStateDelta): 'rejected' | 'ok' | 'resync' | 'conflict' {
+    const room = this.getHostedRoom(clientId, delta?.roomId);
+    if (!room) return 'rejected';
+
+    if (!room.gameState) return 'resync';
+
+    const result = applyDelta(room.gameState, delta);
+    if (result.status === 'gap') {
+      console.log(`[GameServer] Room ${room.id} missed a game state update, waiting for a snapshot`);
+      room.gameState = undefined;
+      return 'resync';
+    }
+
+    if (result.status === 'stale') {
+      console.log(`[GameServer] Room ${room.id} dropped host update v${delta.version}, the server changed the game first`);
+      room.gameState = applyPatch(room.gameState, {});
+      return 'conflict';
+    }
+
+    room.gameState = result.state;
+    recordRoomActivity(room);
+    return 'ok';
+  }
+
+  // Start or stop the turn clock after the game state changed. Returns the
+  // deadline of a timed turn that has just started, for the caller to time
+  // and announce.
+  public syncTurnDeadline(roomId: string): TurnDeadline | undefined {
+    const room = this.rooms.get(roomId);
+    if (!room) return undefined;
+
+    const running = room.turnDeadline;
+    room.turnDeadline = getTurnDeadline(room.gameState, running);
+    return room.turnDeadline !== running ? room.turnDeadline : undefined;
+  }
+
+  // Keep a drawing action for the turn being drawn. False when the client is
+  // not the current drawer, so the action must not be passed on.
+  public recordTurnStroke(clientId: string, action: DrawingAction): boolean {
+    const room = this.rooms.get(this.clientRooms.get(clientId) || '');
+    if (!room || !isCurrentDrawer(room.gameState, clientId, action.playerId)) return false;
+
+    room.turnStrokes = recordTurnStroke(room.gameState, room.turnStrokes, clientId, action);
+    return true;
+  }
+
+  // End a turn that ran out of time, if it is still being played, and
+  // return the change for the caller to send to the room
+  public expireTurn(roomId: string, turn: TurnRef): GameStateDelta | undefined {
+    const room = this.rooms.get(roomId);
+    const patch = room?.gameState && getTurnTimeoutPatch(room.gameState, turn, room.turnStrokes);
+    if (!room || !room.gameState || !patch) return undefined;
+
+    room.gameState = applyPatch(room.gameState, patch);
+    room.turnStrokes = undefined;
+    console.log(`[GameServer] Turn ${turn.turn + 1} of round ${turn.round} in room ${room.id} ran out of time`);
+    return { roomId: room.id, version: room.gameState.version, patch };
+  }
+
+  // Let the host remove another client, and optionally keep them out for
+  // good. The caller takes the client out of the room.
+  public kickClient(hostId: string, roomId: string, targetId: string, ban: boolean): ServerRoom | undefined {
+    const room = this.getHostedRoom(hostId, roomId);
+    if (!room || targetId === hostId || !room.clients.includes(targetId)) return undefined;
+
+    if (ban && !room.banned.includes(targetId)) {
+      room.banned.push(targetId);
+    }
+    console.log(`[GameServer] Host ${hostId} ${ban ? 'banned' : 'kicked'} client ${targetId} from room ${room.id}`);
+    return room;
+  }
+
+  public setLocked(hostId: string, roomId: string, locked: boolean): ServerRoom | undefined {
+    const room = this.getHostedRoom(hostId, roomId);
+    if (!room) return undefined;
+
+    room.isLocked = locked;
+    console.log(`[GameServer] Room ${room.id} ${locked ? 'locked' : 'unlocked'}`);
+    return room;
+  }
+
+  // Hand the room to another connected client, between games only
+  public transferHost(hostId: string, roomId: string, targetId: string): ServerRoom | undefined {
+    const room = this.getHostedRoom(hostId, roomId);
+    if (
+      !room ||
+      targetId === hostId ||
+      !room.clients.includes(targetId) ||
+      isSpectator(room, targetId) ||
+      room.disconnectedAt[targetId] ||
+      !canTransferHost(room.gameState)
+    ) {
+      return undefined;
+    }
+
+    room.host = targetId;
+    if (room.gameState) {
+      room.gameState = withHost(room.gameState, targetId);
+    }
+    recordRoomActivity(room);
+    console.log(`[GameServer] Host ${hostId} handed room ${room.id} to ${targetId}`);
+    return room;
+  }
+
+  public isSpectator(clientId: string): boolean {
+    const room = this.rooms.get(this.clientRooms.get(clientId) || '');
+    return !!room && isSpectator(room, clientId);
+  }
+
+  // Note that a client did something in its room, keeping the room open
+  public recordActivity(clientId: string) {
+    const room = this.rooms.get(this.clientRooms.get(clientId) || '');
+    if (room) recordRoomActivity(room);
+  }
+
+  // Close every room that has been idle or open for too long, and forget
+  // client mappings that no longer point at a room the client is in
+  public expireRooms(now = Date.now()): ExpiredRoom[] {
+    const expired: ExpiredRoom[] = [];
+
+    for (const room of Array.from(this.rooms.values())) {
+      const reason = getRoomExpiry(room, this.lifetime, now);
+      if (!reason) continue;
+
+      this.rooms.delete(room.id);
+      this.expiredRooms.set(room.id, now);
+      console.log(`[GameServer] Room ${room.id} expired (${reason})`);
+      expired.push({ room, reason });
+    }
+
+    for (const [clientId, roomId] of Array.from(this.clientRooms)) {
+      if (!this.rooms.get(roomId)?.clients.includes(clientId)) {
+        this.clientRooms.delete(clientId);
+      }
+    }
+
+    pruneExpiredRooms(this.expiredRooms, now);
+    return expired;
+  }
+
+  // Public rooms that are open to new players, for the room browser
+  public listPublicRooms(now = Date.now()): RoomListing[] {
+    const listings: RoomListing[] = [];
+    for (const room of this.rooms.values()) {
+      if (getRoomExpiry(room, this.lifetime, now)) continue;
+
+      const listing = describeRoom(room);
+      if (listing) listings.push(listing);
+    }
+    return sortRoomListings(listings);
+  }
+
+  private getHostedRoom(clientId: string, roomId: string): ServerRoom | undefined {
+    const room = this.rooms.get(roomId);
+    return room && room.host === clientId ? room : undefined;
+  }
+
+  public getRoom(roomId: string): ServerRoom | undefined {
+    return this.rooms.get(roomId);
+  }
+
+  public getRoomForClient(clientId: string): string | undefined {
+    return this.clientRooms.get(clientId);
+  }
+}
@@ -0,0 +1,214 @@
+import React, { useEffect, useRef, useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Textarea } from '@/components/ui/textarea';
+import { AspectRatio } from '@/components/ui/aspect-ratio';
+import { Send } from 'lucide-react';
+import { ChatMessage, Player, Stroke } from '@/types/game';
+import { useCanvasSize } from '@/hooks/use-canvas-size';
+import { MAX_CHAT_MESSAGE_LENGTH, MAX_NOTES_LENGTH } from '@/lib/discussion';
+import { TurnTimer } from '@/lib/turn-timer';
+import { toCanvasStroke } from '@/lib/drawing-stream';
+import DrawingTimer from './DrawingTimer';
+import PlayerColorLegend from './PlayerColorLegend';
+
+export interface DiscussionProps {
+  players: Player[];
+  strokes: Stroke[];
+  isMultiplayer?: boolean;
+  localPlayerId?: number;
+  // Spectators read along but cannot chat
+  isSpectator?: boolean;
+  // The host, or the only device in a local game
+  canOpenVoting: boolean;
+  chat: ChatMessage[];
+  notes: string;
+  // Seconds before voting opens by itself; untimed when left out
+  discussionDuration?: number;
+  // Multiplayer: the clock of the discussion, kept by the server
+  turnTimer?: TurnTimer | null;
+  onSendMessage: (text: string) => void;
+  onNotesChange: (notes: string) => void;
+  onOpenVoting: () => void;
+}
+
+const Discussion: React.FC<DiscussionProps> = ({
+  players,
+  strokes,
+  isMultiplayer = false,
+  localPlayerId,
+  isSpectator = false,
+  canOpenVoting,
+  chat,
+  notes,
+  discussionDuration,
+  turnTimer = null,
+  onSendMessage,
+  onNotesChange,
+  onOpenVoting
+}) => {
+  const [message, setMessage] = useState('');
+  // Local games time the discussion on this device
+  const [localDeadline] = useState(() => (
+    !isMultiplayer && discussionDuration ? Date.now() + discussionDuration * 1000 : null
+  ));
+  const canvasRef = useRef<HTMLCanvasElement>(null);
+  const containerRef = useRef<HTMLDivElement>(null);
+  const chatRef = useRef<HTMLDivElement>(null);
+
+  const canvasSize = useCanvasSize(containerRef, { width: 350, height: 350 });
+
+  // Draw the final image
+  useEffect(() => {
+    const canvas = canvasRef.current;
+    const context = canvas?.getContext('2d');
+    if (!canvas || !context) return;
+
+    context.fillStyle = 'white';
+    context.fillRect(0, 0, canvas.width, canvas.height);
+
+    strokes.map(stroke => toCanvasStroke(stroke, canvasSize)).forEach(stroke => {
+      if (stroke.points.length < 1) return;
+
+      context.beginPath();
+      context.moveTo(stroke.points[0].x, stroke.points[0].y);
+      stroke.points.forEach(point => context.lineTo(point.x, point.y));
+      context.strokeStyle = stroke.color;
+      context.lineWidth = stroke.width;
+      context.lineCap = 'round';
+      context.lineJoin = 'round';
+      context.stroke();
+    });
+  }, [strokes, canvasSize]);
+
+  // Keep the latest message in view
+  useEffect(() => {
+    const log = chatRef.current;
+    if (log) log.scrollTop = log.scrollHeight;
+  }, [chat.length]);
+
+  const handleSend = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = message.trim();
+    if (!text) return;
+
+    onSendMessage(text);
+    setMessage('');
+  };
+
+  const getPlayer = (playerId: number) => players.find(p => p.id === playerId);
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold text-center">Discussion</CardTitle>
+          <CardDescription className="text-center">
+            Talk the drawing over before voting opens
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          {turnTimer && !!discussionDuration && (
+            <DrawingTimer
+              durationSeconds={discussionDuration}
+              deadline={turnTimer.deadline}
+              clockOffset={turnTimer.clockOffset}
+            />
+          )}
+
+          {localDeadline !== null && (
+            <DrawingTimer
+              durationSeconds={discussionDuration}
+              deadline={localDeadline}
+              onTimeExpired={onOpenVoting}
+            />
+          )}
+
+          <div>
+            <div ref={containerRef} className="bg-white border rounded-md overflow-hidden">
+              <AspectRatio ratio={1/1}>
+                <canvas
+                  ref={canvasRef}
+                  width={canvasSize.width}
+                  height={canvasSize.height}
+                  className="w-full h-full"
+                />
+              </AspectRatio>
+            </div>
+
+            <div className="mt-4">
+              <PlayerColorLegend players={players} />
+            </div>
+          </div>
+
+          {isMultiplayer ? (
+            <div className="space-y-2">
+              <div ref={chatRef} className="h-48 overflow-y-auto rounded-md border p-3 space-y-2">
+                {chat.length === 0 && (
+                  <p className="text-sm text-center text-muted-foreground">No messages yet</p>
+                )}
+                {chat.map(chatMessage => {
+                  const author = getPlayer(chatMessage.playerId);
+                  return (
+                    <div key={chatMessage.id} className="flex items-start gap-2 text-sm">
+                      <div className={`mt-1 h-3 w-3 shrink-0 rounded-full player-color-${author?.colorIndex}`} />
+                      <p className="break-words min-w-0">
+                        <span className="font-medium">
+                          {author?.name || 'A player'}
+                          {chatMessage.playerId === localPlayerId && ' (you)'}
+                        </span>
+                        {': '}
+                        {chatMessage.text}
+                      </p>
+                    </div>
+                  );
+                })}
+              </div>
+
+              {isSpectator ? (
+                <p className="text-sm text-center text-muted-foreground">
+                  You are watching, only players can chat
+                </p>
+              ) : (
+                <form onSubmit={handleSend} className="flex space-x-2">
+                  <Input
+                    placeholder="Who drew what?"
+                    value={message}
+                    onChange={(e) => setMessage(e.target.value)}
+                    maxLength={MAX_CHAT_MESSAGE_LENGTH}
+                  />
+                  <Button type="submit" size="icon" disabled={!message.trim()} title="Send">
+                    <Send className="h-4 w-4" />
+                  </Button>
+                </form>
+              )}
+            </div>
+          ) : (
+            <Textarea
+              placeholder="Shared notes: who drew what, and who seemed unsure?"
+              value={notes}
+              onChange={(e) => onNotesChange(e.target.value)}
+              maxLength={MAX_NOTES_LENGTH}
+              rows={5}
+            />
+          )}
+
+          {canOpenVoting ? (
+            <Button className="w-full" onClick={onOpenVoting}>
+              Start voting
+            </Button>
+          ) : (
+            <p className="text-sm text-center text-muted-foreground">
+              {discussionDuration
+                ? 'Voting opens when the time is up, or when the host starts it'
+                : 'Voting opens when the host starts it'}
+            </p>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default Discussion;
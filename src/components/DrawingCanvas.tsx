@@ -1,7 +1,7 @@
 import React, { useRef, useState, useEffect } from 'react';
 import { Button } from "@/components/ui/button";
 import { Card } from "@/components/ui/card";
-import { Player, Stroke, DrawingAction } from '@/types/game';
+import { Player, Stroke } from '@/types/game';
 import { Undo2, Check, ArrowRight } from 'lucide-react';
 import { useToast } from "@/hooks/use-toast";
 import { useSocket } from "@/contexts/SocketContext";
@@ -11,6 +11,11 @@ import { AspectRatio } from "@/components/ui/aspect-ratio";
 import { Separator } from "@/components/ui/separator";
 import DrawingTimer from "@/components/DrawingTimer";
 import { useCanvasSize } from "@/hooks/use-canvas-size";
+import { useRemoteStrokes } from "@/hooks/use-remote-strokes";
+import { createStrokeId, mergeStrokes, toCanvasStroke, toGridPoint, toGridWidth } from "@/lib/drawing-stream";
+import { DrawingBatcher } from "@/lib/drawing-batcher";
+import { emitEvent, SERVER_EVENTS } from "@/lib/protocol";
+import { TurnTimer } from "@/lib/turn-timer";
 
 interface DrawingCanvasProps {
   players: Player[];
@@ -20,8 +25,15 @@ interface DrawingCanvasProps {
   previousStrokes?: Stroke[];
   onRoundComplete: (strokes: Stroke[]) => void;
   isMultiplayer?: boolean;
+  // Multiplayer turns are driven by the host's game state
+  currentTurn?: number;
+  // Seat of this device; in multiplayer only that player draws on their turn
+  localPlayerId?: number;
+  onTurnComplete?: (strokes: Stroke[]) => void;
   timerEnabled?: boolean;
   timerDuration?: number;
+  // Multiplayer: the clock of this turn, kept by the server
+  turnTimer?: TurnTimer | null;
 }
 
 const STROKE_WIDTH = 4;
@@ -44,17 +56,24 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
   previousStrokes = [],
   onRoundComplete,
   isMultiplayer = false,
+  currentTurn = 0,
+  localPlayerId,
+  onTurnComplete,
   timerEnabled = false,
-  timerDuration = 30
+  timerDuration = 30,
+  turnTimer = null
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const containerRef = useRef<HTMLDivElement>(null);
   const [isDrawing, setIsDrawing] = useState(false);
-  const [currentPlayerIndex, setCurrentPlayerIndex] = useState(0);
+  const [localPlayerIndex, setCurrentPlayerIndex] = useState(0);
+  // Strokes are kept on the grid of lib/drawing-stream.ts, and scaled to
+  // the canvas as they are drawn
   const [strokes, setStrokes] = useState<Stroke[]>([]);
   const [currentStroke, setCurrentStroke] = useState<Stroke | null>(null);
   const [currentPlayerStrokes, setCurrentPlayerStrokes] = useState<Stroke[]>([]);
-  const [isTimerActive, setIsTimerActive] = useState(false);
+  // Local games time each turn on this device
+  const [localDeadline, setLocalDeadline] = useState<number | null>(null);
   
   const canvasSize = useCanvasSize(containerRef, { width: CANVAS_WIDTH, height: CANVAS_HEIGHT });
   
@@ -62,8 +81,10 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
   const { toast } = useToast();
   const isMobile = useIsMobile();
   
+  const currentPlayerIndex = isMultiplayer ? currentTurn : localPlayerIndex;
   const currentPlayer = players[currentPlayerIndex];
   const isCurrentPlayerImposter = currentPlayer?.isImposter || false;
+  const isMyTurn = !isMultiplayer || (localPlayerId !== undefined && currentPlayer?.id === localPlayerId);
   
   useEffect(() => {
     const canvas = canvasRef.current;
@@ -84,64 +105,39 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
     setStrokes([]);
     setCurrentPlayerStrokes([]);
     setCurrentStroke(null);
+    remoteStrokes.clear();
     
-    if (timerEnabled) {
-      setIsTimerActive(true);
-    }
-  }, [currentRound, previousStrokes, timerEnabled]);
+    setLocalDeadline(timerEnabled && !isMultiplayer ? Date.now() + timerDuration * 1000 : null);
+  }, [currentRound, currentTurn, previousStrokes, timerEnabled, timerDuration, isMultiplayer]);
+
+  const remoteStrokes = useRemoteStrokes({
+    enabled: isMultiplayer,
+    canvasRef,
+    canvasSize,
+    drawerId: currentPlayer?.id,
+    onStrokeComplete: (stroke) => setStrokes(prev => mergeStrokes(prev, [stroke])),
+    onStrokeRemoved: (strokeId) => setStrokes(prev => {
+      const remaining = prev.filter(stroke => stroke.id !== strokeId);
+      redrawCanvas(remaining);
+      return remaining;
+    })
+  });
 
+  // Our own strokes go out in batches rather than one message per point
+  const batcherRef = useRef<DrawingBatcher | null>(null);
   useEffect(() => {
-    if (!socket || !isMultiplayer) return;
-    
-    const handleRemoteDrawingAction = (action: DrawingAction) => {
-      const playerObj = players.find(p => p.id === action.playerId);
-      if (!playerObj) return;
-      
-      if (action.type === 'start' && action.point) {
-        const newStroke: Stroke = {
-          points: [action.point],
-          color: action.color,
-          width: STROKE_WIDTH,
-          playerId: action.playerId
-        };
-        
-        setStrokes(prev => [...prev, newStroke]);
-        redrawCanvas([...strokes, newStroke]);
-      } 
-      else if (action.type === 'move' && action.point) {
-        setStrokes(prev => {
-          const playerStrokes = prev.filter(s => s.playerId === action.playerId);
-          if (playerStrokes.length === 0) return prev;
-          
-          const lastStrokeIndex = prev.findIndex(s => 
-            s.playerId === action.playerId && 
-            prev.lastIndexOf(s) === prev.findIndex(s2 => 
-              s2.playerId === action.playerId && 
-              prev.lastIndexOf(s2) === prev.lastIndexOf(s)
-            )
-          );
-          
-          if (lastStrokeIndex === -1 || !action.point) return prev;
-          
-          const updatedStrokes = [...prev];
-          updatedStrokes[lastStrokeIndex] = {
-            ...updatedStrokes[lastStrokeIndex],
-            points: [...updatedStrokes[lastStrokeIndex].points, action.point]
-          };
-          
-          redrawCanvas(updatedStrokes);
-          
-          return updatedStrokes;
-        });
-      }
-    };
-    
-    socket.on('drawing-action', handleRemoteDrawingAction);
-    
+    if (!socket || !roomId || !isMultiplayer) return;
+
+    const batcher = new DrawingBatcher((action) => {
+      emitEvent(socket, SERVER_EVENTS.drawingAction, { ...action, roomId });
+    });
+    batcherRef.current = batcher;
+
     return () => {
-      socket.off('drawing-action', handleRemoteDrawingAction);
+      batcher.dispose();
+      batcherRef.current = null;
     };
-  }, [socket, isMultiplayer, players, strokes]);
+  }, [socket, roomId, isMultiplayer]);
 
   const redrawCanvas = (allStrokes: Stroke[]) => {
     const canvas = canvasRef.current;
@@ -159,6 +155,8 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
     
     drawStrokes(context, allStrokes);
     
+    drawStrokes(context, remoteStrokes.getActiveStrokes());
+    
     drawStrokes(context, currentPlayerStrokes);
     
     if (currentStroke && currentStroke.points.length > 0) {
@@ -174,13 +172,13 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
     });
   };
   
-  const drawStroke = (context: CanvasRenderingContext2D, stroke: Stroke) => {
+  // A stroke of a single point is drawn as a dot
+  const drawStroke = (context: CanvasRenderingContext2D, gridStroke: Stroke) => {
+    const stroke = toCanvasStroke(gridStroke, canvasSize);
     context.beginPath();
     context.moveTo(stroke.points[0].x, stroke.points[0].y);
     
-    stroke.points.forEach((point, i) => {
-      if (i > 0) context.lineTo(point.x, point.y);
-    });
+    stroke.points.forEach(point => context.lineTo(point.x, point.y));
     
     context.strokeStyle = stroke.color;
     context.lineWidth = stroke.width;
@@ -209,37 +207,34 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
   };
 
   const startDrawing = (e: React.TouchEvent | React.MouseEvent) => {
-    if (currentPlayerStrokes.length > 0) {
+    if (!isMyTurn || currentPlayerStrokes.length > 0) {
       return;
     }
     
-    const point = getCanvasCoordinates(e);
+    const point = toGridPoint(getCanvasCoordinates(e), canvasSize);
     
     setIsDrawing(true);
     const newStroke: Stroke = {
+      id: createStrokeId(currentPlayer.id),
       points: [point],
       color: getPlayerColor(currentPlayer.colorIndex),
-      width: STROKE_WIDTH,
+      width: toGridWidth(STROKE_WIDTH, canvasSize),
       playerId: currentPlayer.id
     };
     
     setCurrentStroke(newStroke);
     
-    if (isMultiplayer && socket && roomId) {
-      socket.emit('drawing-action', {
-        type: 'start',
-        point,
-        playerId: currentPlayer.id,
-        color: getPlayerColor(currentPlayer.colorIndex),
-        roomId
-      });
-    }
+    batcherRef.current?.start(
+      { playerId: currentPlayer.id, color: newStroke.color, width: newStroke.width, strokeId: newStroke.id! },
+      point
+    );
   };
 
   const draw = (e: React.TouchEvent | React.MouseEvent) => {
     if (!isDrawing || !currentStroke) return;
     
-    const point = getCanvasCoordinates(e);
+    const point = toGridPoint(getCanvasCoordinates(e), canvasSize);
+    batcherRef.current?.add(point);
     
     setCurrentStroke(prevStroke => {
       if (!prevStroke) return null;
@@ -255,16 +250,6 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
         updatedStroke
       );
       
-      if (isMultiplayer && socket && roomId) {
-        socket.emit('drawing-action', {
-          type: 'move',
-          point,
-          playerId: currentPlayer.id,
-          color: getPlayerColor(currentPlayer.colorIndex),
-          roomId
-        });
-      }
-      
       return updatedStroke;
     });
   };
@@ -276,24 +261,23 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
     }
     
     setIsDrawing(false);
-    if (currentStroke.points.length > 1) {
+    if (currentStroke.points.length > 0) {
       setCurrentPlayerStrokes(prevStrokes => [...prevStrokes, currentStroke]);
       
       redrawCanvas([...strokes, ...currentPlayerStrokes, currentStroke]);
     }
     
-    if (isMultiplayer && socket && roomId) {
-      socket.emit('drawing-action', {
-        type: 'end',
-        playerId: currentPlayer.id,
-        roomId
-      });
-    }
+    batcherRef.current?.end();
     
     setCurrentStroke(null);
   };
 
   const handleUndo = () => {
+    // Take the strokes back off the other players' canvases too
+    [...currentPlayerStrokes, currentStroke].forEach(stroke => {
+      if (stroke?.id) batcherRef.current?.remove(stroke.id);
+    });
+    
     setCurrentPlayerStrokes([]);
     setCurrentStroke(null);
     setIsDrawing(false);
@@ -316,20 +300,21 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
       return;
     }
     
-    setIsTimerActive(false);
-    
+    finishTurn();
+  };
+
+  const finishTurn = () => {
     const updatedStrokes = [...strokes, ...currentPlayerStrokes];
     setStrokes(updatedStrokes);
     
     setCurrentPlayerStrokes([]);
     setCurrentStroke(null);
+    setIsDrawing(false);
     
-    if (isMultiplayer && socket && roomId) {
-      socket.emit('player-turn-complete', {
-        playerId: currentPlayer.id,
-        strokes: currentPlayerStrokes,
-        roomId
-      });
+    // The host advances the turn and sends back the updated strokes
+    if (isMultiplayer) {
+      onTurnComplete?.(currentPlayerStrokes);
+      return;
     }
     
     if (currentPlayerIndex < players.length - 1) {
@@ -337,44 +322,22 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
       setCurrentPlayerIndex(nextPlayerIndex);
       
       if (timerEnabled) {
-        setTimeout(() => setIsTimerActive(true), 500);
+        setLocalDeadline(Date.now() + timerDuration * 1000);
       }
     } else {
       onRoundComplete(updatedStrokes);
     }
   };
 
+  // Local games only; the server ends multiplayer turns for everyone.
+  // The turn ends with whatever the player had drawn by then.
   const handleTimeExpired = () => {
     toast({
       title: "Time's up!",
       description: "Your turn has ended."
     });
     
-    if (currentPlayerStrokes.length > 0) {
-      handleConfirmStroke();
-    } else {
-      const canvas = canvasRef.current;
-      if (canvas) {
-        const context = canvas.getContext('2d');
-        if (context) {
-          const centerX = canvas.width / 2;
-          const centerY = canvas.height / 2;
-          
-          const dummyStroke: Stroke = {
-            points: [
-              { x: centerX, y: centerY },
-              { x: centerX + 1, y: centerY + 1 }
-            ],
-            color: getPlayerColor(currentPlayer.colorIndex),
-            width: STROKE_WIDTH,
-            playerId: currentPlayer.id
-          };
-          
-          setCurrentPlayerStrokes([dummyStroke]);
-          setTimeout(() => handleConfirmStroke(), 100);
-        }
-      }
-    }
+    finishTurn();
   };
 
   const ColorLegend = () => (
@@ -418,11 +381,22 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
           </div>
         </div>
         
-        {timerEnabled && (
+        {timerEnabled && isMultiplayer && turnTimer && (
           <div className="mb-4">
-            <DrawingTimer 
+            <DrawingTimer
               durationSeconds={timerDuration}
-              isActive={isTimerActive}
+              deadline={turnTimer.deadline}
+              clockOffset={turnTimer.clockOffset}
+            />
+          </div>
+        )}
+        
+        {timerEnabled && !isMultiplayer && localDeadline !== null && (
+          <div className="mb-4">
+            <DrawingTimer
+              key={`timer-${currentRound}-${currentPlayerIndex}`}
+              durationSeconds={timerDuration}
+              deadline={localDeadline}
               onTimeExpired={handleTimeExpired}
             />
           </div>
@@ -452,7 +426,13 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
 
         <ColorLegend />
         
-        <div className="mt-4 flex justify-between">
+        {!isMyTurn && (
+          <p className="mt-4 text-center text-muted-foreground">
+            Waiting for {currentPlayer.name} to draw...
+          </p>
+        )}
+
+        {isMyTurn && <div className="mt-4 flex justify-between">
           <Button
             variant="outline"
             onClick={handleUndo}
@@ -475,7 +455,7 @@ const DrawingCanvas: React.FC<DrawingCanvasProps> = ({
               </>
             )}
           </Button>
-        </div>
+        </div>}
       </div>
     </div>
   );
@@ -1,49 +1,56 @@
-
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useRef } from 'react';
 import { Progress } from '@/components/ui/progress';
+import { getRemainingMs } from '@/lib/turn-timer';
 
 interface DrawingTimerProps {
   durationSeconds: number;
-  isActive: boolean;
-  onTimeExpired: () => void;
+  // When the turn runs out, on the clock of whoever keeps time for the game
+  deadline: number;
+  // How far that clock is ahead of this device's
+  clockOffset?: number;
+  // Local games only, multiplayer turns are ended by the server
+  onTimeExpired?: () => void;
 }
 
-const DrawingTimer: React.FC<DrawingTimerProps> = ({ 
-  durationSeconds, 
-  isActive, 
-  onTimeExpired 
+// Redraw a few times a second so the countdown never skips a second
+const TICK_MS = 250;
+
+const DrawingTimer: React.FC<DrawingTimerProps> = ({
+  durationSeconds,
+  deadline,
+  clockOffset = 0,
+  onTimeExpired
 }) => {
-  const [timeRemaining, setTimeRemaining] = useState<number>(durationSeconds);
-  const [progress, setProgress] = useState<number>(100);
+  const [remainingMs, setRemainingMs] = useState(() => getRemainingMs(deadline, clockOffset));
+  const onTimeExpiredRef = useRef(onTimeExpired);
+  onTimeExpiredRef.current = onTimeExpired;
 
   useEffect(() => {
-    if (!isActive) {
-      setTimeRemaining(durationSeconds);
-      setProgress(100);
+    const tick = () => {
+      const remaining = getRemainingMs(deadline, clockOffset);
+      setRemainingMs(remaining);
+      return remaining;
+    };
+
+    if (tick() === 0) {
+      onTimeExpiredRef.current?.();
       return;
     }
 
     const timer = setInterval(() => {
-      setTimeRemaining((prev) => {
-        const newTime = prev - 1;
-        
-        // Calculate progress as a percentage
-        const newProgress = (newTime / durationSeconds) * 100;
-        setProgress(Math.max(0, newProgress));
-        
-        if (newTime <= 0) {
-          clearInterval(timer);
-          onTimeExpired();
-          return 0;
-        }
-        return newTime;
-      });
-    }, 1000);
+      if (tick() === 0) {
+        clearInterval(timer);
+        onTimeExpiredRef.current?.();
+      }
+    }, TICK_MS);
 
     return () => {
       clearInterval(timer);
     };
-  }, [isActive, durationSeconds, onTimeExpired]);
+  }, [deadline, clockOffset]);
+
+  const timeRemaining = Math.ceil(remainingMs / 1000);
+  const progress = Math.min(100, (remainingMs / (durationSeconds * 1000)) * 100);
 
   // Format time as MM:SS
   const formatTime = (seconds: number): string => {
@@ -58,8 +65,8 @@ const DrawingTimer: React.FC<DrawingTimerProps> = ({
         <span className="text-sm">Time remaining</span>
         <span className="text-sm font-medium">{formatTime(timeRemaining)}</span>
       </div>
-      <Progress 
-        value={progress} 
+      <Progress
+        value={progress}
         className={`h-2 ${progress < 25 ? 'bg-red-200' : ''}`}
       />
     </div>
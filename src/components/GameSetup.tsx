@@ -1,29 +1,61 @@
-import React, { useState } from 'react';
+import React, { useEffect, useState } from 'react';
 import { Card, CardContent, CardHeader, CardTitle, CardDescription, CardFooter } from "@/components/ui/card";
 import { Button } from "@/components/ui/button";
 import { Label } from "@/components/ui/label";
 import { Switch } from "@/components/ui/switch";
 import { Slider } from "@/components/ui/slider";
+import { Badge } from "@/components/ui/badge";
+import { Select, SelectContent, SelectGroup, SelectItem, SelectLabel, SelectTrigger, SelectValue } from "@/components/ui/select";
 import { GameConfig } from '@/types/game';
 import MultiplayerModal from '@/components/MultiplayerModal';
+import WordPackEditor from '@/components/WordPackEditor';
 import Footer from '@/components/Footer';
+import { DEFAULT_DISCUSSION_DURATION } from '@/lib/discussion';
+import { MAX_IMPOSTERS, getImposterCount } from '@/lib/imposters';
+import { DEFAULT_WORD_PACK_ID, WORD_PACKS } from '@/data/wordPacks';
+import { getWordCount, getWordPack } from '@/lib/word-packs';
+import { useCustomWordPacks } from '@/hooks/use-custom-word-packs';
 
 interface GameSetupProps {
   onConfigSubmit: (config: GameConfig) => void;
   initialTimerDuration?: number;
   initialTimerEnabled?: boolean;
+  // Untimed when left out
+  initialDiscussionDuration?: number;
+  // Room from an invite link, opened in the join flow
+  inviteRoomId?: string | null;
+  onInviteHandled?: () => void;
 }
 
 const GameSetup: React.FC<GameSetupProps> = ({ 
   onConfigSubmit,
   initialTimerDuration = 30,
-  initialTimerEnabled = false
+  initialTimerEnabled = false,
+  initialDiscussionDuration,
+  inviteRoomId,
+  onInviteHandled
 }) => {
   const [playerCount, setPlayerCount] = useState<number>(4);
   const [roundCount, setRoundCount] = useState<number>(3);
+  const [imposterCount, setImposterCount] = useState<number>(1);
+  const [impostersKnowEachOther, setImpostersKnowEachOther] = useState<boolean>(false);
+  const [wordPackId, setWordPackId] = useState<string>(DEFAULT_WORD_PACK_ID);
+  const [categoryHint, setCategoryHint] = useState<boolean>(false);
+  const [isShowingWordPackEditor, setIsShowingWordPackEditor] = useState<boolean>(false);
+  const { packs: customPacks, savePack, deletePack } = useCustomWordPacks();
   const [isShowingMultiplayerModal, setIsShowingMultiplayerModal] = useState<boolean>(false);
   const [isTimerEnabled, setIsTimerEnabled] = useState<boolean>(initialTimerEnabled);
   const [timerDuration, setTimerDuration] = useState<number>(initialTimerDuration);
+  const [isDiscussionTimed, setIsDiscussionTimed] = useState<boolean>(initialDiscussionDuration !== undefined);
+  const [discussionDuration, setDiscussionDuration] = useState<number>(
+    initialDiscussionDuration || DEFAULT_DISCUSSION_DURATION
+  );
+
+  useEffect(() => {
+    if (inviteRoomId) {
+      setIsShowingMultiplayerModal(true);
+    }
+  }, [inviteRoomId]);
 
   const handleLocalGame = () => {
     onConfigSubmit({
@@ -31,7 +63,13 @@ const GameSetup: React.FC<GameSetupProps> = ({
       roundCount,
       isMultiplayer: false,
       timerEnabled: isTimerEnabled,
-      timerDuration: isTimerEnabled ? timerDuration : undefined
+      timerDuration: isTimerEnabled ? timerDuration : undefined,
+      discussionDuration: isDiscussionTimed ? discussionDuration : undefined,
+      imposterCount,
+      impostersKnowEachOther: imposterCount > 1 && impostersKnowEachOther,
+      wordPackId,
+      customWordPack,
+      categoryHint
     });
   };
 
@@ -41,15 +79,27 @@ const GameSetup: React.FC<GameSetupProps> = ({
 
   const handleMultiplayerConfig = (roomConfig: { roomId: string, isHost: boolean }) => {
     onConfigSubmit({
-      playerCount: 0, // We'll count as players join
+      playerCount: 0, // Set from the lobby's ready players when the host starts
       roundCount,
       isMultiplayer: true,
       isHost: roomConfig.isHost,
       roomId: roomConfig.roomId,
       timerEnabled: isTimerEnabled,
-      timerDuration: isTimerEnabled ? timerDuration : undefined
+      timerDuration: isTimerEnabled ? timerDuration : undefined,
+      discussionDuration: isDiscussionTimed ? discussionDuration : undefined,
+      imposterCount,
+      impostersKnowEachOther: imposterCount > 1 && impostersKnowEachOther,
+      wordPackId,
+      customWordPack,
+      categoryHint
     });
     setIsShowingMultiplayerModal(false);
+    onInviteHandled?.();
+  };
+
+  const handleCloseMultiplayerModal = () => {
+    setIsShowingMultiplayerModal(false);
+    onInviteHandled?.();
   };
 
   const handleTimerToggle = (checked: boolean) => {
@@ -60,6 +110,10 @@ const GameSetup: React.FC<GameSetupProps> = ({
     setTimerDuration(value[0]);
   };
 
+  const handleDiscussionDurationChange = (value: number[]) => {
+    setDiscussionDuration(value[0]);
+  };
+
   const handlePlayerCountChange = (value: number[]) => {
     setPlayerCount(value[0]);
   };
@@ -68,6 +122,23 @@ const GameSetup: React.FC<GameSetupProps> = ({
     setRoundCount(value[0]);
   };
 
+  const handleImposterCountChange = (value: number[]) => {
+    setImposterCount(value[0]);
+  };
+
+  // A custom pack goes out with the config, so every player has it
+  const customWordPack = customPacks.find(pack => pack.id === wordPackId);
+  const wordPack = getWordPack(wordPackId, customWordPack);
+
+  // Back to the default pack when the picked one is deleted
+  useEffect(() => {
+    if (wordPack.id !== wordPackId) setWordPackId(wordPack.id);
+  }, [wordPack.id, wordPackId]);
+
+  // Local games know their player count up front, multiplayer games only
+  // once the host starts
+  const localImposterCount = getImposterCount({ playerCount, roundCount, imposterCount }, playerCount);
+
   return (
     <div className="min-h-screen flex flex-col items-center justify-center p-4 bg-background">
       <div className="w-full max-w-md flex flex-col items-center justify-center mb-6 space-y-2">
@@ -117,6 +188,88 @@ const GameSetup: React.FC<GameSetupProps> = ({
             />
           </div>
 
+          <div className="space-y-2">
+            <Label htmlFor="wordPack">Word Pack</Label>
+            <Select value={wordPackId} onValueChange={setWordPackId}>
+              <SelectTrigger id="wordPack">
+                <SelectValue />
+              </SelectTrigger>
+              <SelectContent>
+                {WORD_PACKS.map(pack => (
+                  <SelectItem key={pack.id} value={pack.id}>
+                    {pack.name}
+                  </SelectItem>
+                ))}
+                {customPacks.length > 0 && (
+                  <SelectGroup>
+                    <SelectLabel>Your packs</SelectLabel>
+                    {customPacks.map(pack => (
+                      <SelectItem key={pack.id} value={pack.id}>
+                        {pack.name}
+                      </SelectItem>
+                    ))}
+                  </SelectGroup>
+                )}
+              </SelectContent>
+            </Select>
+            <Button
+              variant="link"
+              className="h-auto p-0 text-xs"
+              onClick={() => setIsShowingWordPackEditor(true)}
+            >
+              Create or import your own packs
+            </Button>
+            {wordPack.description && (
+              <p className="text-xs text-muted-foreground">{wordPack.description}</p>
+            )}
+            <div className="flex flex-wrap gap-1">
+              <Badge variant="secondary">{wordPack.difficulty}</Badge>
+              <Badge variant="outline">{getWordCount(wordPack)} words</Badge>
+              {wordPack.categories.map(category => (
+                <Badge key={category.name} variant="outline">{category.name}</Badge>
+              ))}
+            </div>
+
+            <div className="flex items-center justify-between pt-2">
+              <Label htmlFor="category-hint-toggle">Show Imposters the Category</Label>
+              <Switch
+                id="category-hint-toggle"
+                checked={categoryHint}
+                onCheckedChange={setCategoryHint}
+              />
+            </div>
+          </div>
+
+          <div className="space-y-2">
+            <div className="flex justify-between mb-2">
+              <Label htmlFor="imposterCount">Number of Imposters: {imposterCount}</Label>
+            </div>
+            <Slider
+              id="imposterCount"
+              min={1}
+              max={MAX_IMPOSTERS}
+              step={1}
+              value={[imposterCount]}
+              onValueChange={handleImposterCountChange}
+            />
+            {localImposterCount < imposterCount && (
+              <p className="text-xs text-muted-foreground">
+                Local games of {playerCount} players have at most {localImposterCount} {localImposterCount === 1 ? 'imposter' : 'imposters'}
+              </p>
+            )}
+
+            {imposterCount > 1 && (
+              <div className="flex items-center justify-between pt-2">
+                <Label htmlFor="imposters-know-toggle">Imposters Know Each Other</Label>
+                <Switch
+                  id="imposters-know-toggle"
+                  checked={impostersKnowEachOther}
+                  onCheckedChange={setImpostersKnowEachOther}
+                />
+              </div>
+            )}
+          </div>
+
           <div className="space-y-2">
             <div className="flex items-center justify-between">
               <Label htmlFor="timer-toggle">Enable Turn Timer</Label>
@@ -142,6 +295,32 @@ const GameSetup: React.FC<GameSetupProps> = ({
               </div>
             )}
           </div>
+
+          <div className="space-y-2">
+            <div className="flex items-center justify-between">
+              <Label htmlFor="discussion-timer-toggle">Time the Discussion</Label>
+              <Switch
+                id="discussion-timer-toggle"
+                checked={isDiscussionTimed}
+                onCheckedChange={setIsDiscussionTimed}
+              />
+            </div>
+
+            {isDiscussionTimed && (
+              <div className="pt-4">
+                <div className="flex justify-between mb-2">
+                  <span>Discussion: {discussionDuration} seconds</span>
+                </div>
+                <Slider
+                  min={30}
+                  max={300}
+                  step={15}
+                  value={[discussionDuration]}
+                  onValueChange={handleDiscussionDurationChange}
+                />
+              </div>
+            )}
+          </div>
           
           <div className="space-y-2 pt-4">
             <Button 
@@ -165,10 +344,19 @@ const GameSetup: React.FC<GameSetupProps> = ({
         <Footer />
       </div>
       
+      <WordPackEditor
+        isOpen={isShowingWordPackEditor}
+        onClose={() => setIsShowingWordPackEditor(false)}
+        packs={customPacks}
+        onSavePack={savePack}
+        onDeletePack={deletePack}
+      />
+
       <MultiplayerModal
         isOpen={isShowingMultiplayerModal}
-        onClose={() => setIsShowingMultiplayerModal(false)}
+        onClose={handleCloseMultiplayerModal}
         onConfigSubmit={handleMultiplayerConfig}
+        initialRoomCode={inviteRoomId}
       />
     </div>
   );
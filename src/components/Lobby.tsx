@@ -0,0 +1,254 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from "@/components/ui/card";
+import { Input } from "@/components/ui/input";
+import { Button } from "@/components/ui/button";
+import { Badge } from "@/components/ui/badge";
+import { Label } from "@/components/ui/label";
+import { Switch } from "@/components/ui/switch";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuSeparator,
+  DropdownMenuTrigger
+} from "@/components/ui/dropdown-menu";
+import { Check, Crown, Eye, Loader2, Lock, LogOut, MoreVertical, Users } from 'lucide-react';
+import { GameConfig, Player } from '@/types/game';
+import RoomInvite from '@/components/RoomInvite';
+import { MAX_NAME_LENGTH, MIN_PLAYERS, getReadyPlayers, isLobbyFull, isNameTaken, normalizeName } from '@/lib/lobby';
+import { getWordPack } from '@/lib/word-packs';
+
+export interface LobbyProps {
+  roomId: string;
+  players: Player[];
+  gameConfig?: GameConfig;
+  timerEnabled: boolean;
+  timerDuration: number;
+  localClientId: string | null;
+  hostClientId: string;
+  isHost: boolean;
+  isRoomLocked: boolean;
+  // Spectators see the lobby but take no seat
+  isSpectator: boolean;
+  onNameChange: (name: string) => void;
+  onReadyChange: (isReady: boolean) => void;
+  onStart: () => void;
+  onLeave: () => void;
+  // Host only
+  onKick: (clientId: string, ban: boolean) => void;
+  onTransferHost: (clientId: string) => void;
+  onLockChange: (locked: boolean) => void;
+}
+
+const Lobby: React.FC<LobbyProps> = ({
+  roomId,
+  players,
+  gameConfig,
+  timerEnabled,
+  timerDuration,
+  localClientId,
+  hostClientId,
+  isHost,
+  isRoomLocked,
+  isSpectator,
+  onNameChange,
+  onReadyChange,
+  onStart,
+  onLeave,
+  onKick,
+  onTransferHost,
+  onLockChange
+}) => {
+  const localPlayer = players.find(p => p.clientId === localClientId);
+  const [name, setName] = useState<string>('');
+  const [error, setError] = useState<string | null>(null);
+
+  const readyCount = getReadyPlayers(players).length;
+  const canStart = isHost && readyCount >= MIN_PLAYERS;
+  const isTurnedAway = !isSpectator && !localPlayer && isLobbyFull(players);
+
+  const handleNameChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    setName(e.target.value);
+    setError(null);
+  };
+
+  const handleNameSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+
+    const finalName = normalizeName(name);
+    if (!finalName) return;
+
+    if (isNameTaken(players, finalName, localClientId || undefined)) {
+      setError("This name is already taken");
+      return;
+    }
+
+    onNameChange(finalName);
+    setName('');
+  };
+
+  return (
+    <div className="flex items-center justify-center min-h-screen p-4">
+      <Card className="w-full max-w-md animate-fade-in">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold text-center">Lobby</CardTitle>
+          <CardDescription className="text-center">
+            {gameConfig?.roundCount || 1} {gameConfig?.roundCount === 1 ? 'round' : 'rounds'}
+            {timerEnabled ? `, ${timerDuration} second turns` : ', no turn timer'}
+            {gameConfig?.discussionDuration ? `, ${gameConfig.discussionDuration} second discussion` : ''}
+            {(gameConfig?.imposterCount || 1) > 1
+              ? `, up to ${gameConfig.imposterCount} imposters${gameConfig.impostersKnowEachOther ? ' who know each other' : ''}`
+              : ''}
+            {`, ${getWordPack(gameConfig?.wordPackId, gameConfig?.customWordPack).name} words`}
+            {gameConfig?.categoryHint ? ' with a category hint' : ''}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-6">
+          <RoomInvite roomId={roomId} showQrCode={isHost} />
+
+          {isHost ? (
+            <div className="flex items-center justify-between">
+              <Label htmlFor="lock-toggle">Lock room to new players</Label>
+              <Switch
+                id="lock-toggle"
+                checked={isRoomLocked}
+                onCheckedChange={onLockChange}
+              />
+            </div>
+          ) : isRoomLocked && (
+            <p className="flex items-center justify-center text-sm text-muted-foreground">
+              <Lock className="h-4 w-4 mr-1" />
+              The host has locked this room
+            </p>
+          )}
+
+          {isSpectator ? (
+            <p className="flex items-center justify-center text-sm text-muted-foreground">
+              <Eye className="h-4 w-4 mr-1" />
+              You are watching this room
+            </p>
+          ) : isTurnedAway ? (
+            <p className="flex items-center justify-center text-sm text-muted-foreground">
+              <Users className="h-4 w-4 mr-1" />
+              This room is full. You will get a seat when someone leaves.
+            </p>
+          ) : (
+            <form onSubmit={handleNameSubmit} className="space-y-1">
+              <div className="flex space-x-2">
+                <Input
+                  placeholder={localPlayer?.name || 'Your name'}
+                  value={name}
+                  maxLength={MAX_NAME_LENGTH}
+                  onChange={handleNameChange}
+                  className={error ? "border-red-500" : ""}
+                />
+                <Button type="submit" variant="outline" disabled={!normalizeName(name)}>
+                  {localPlayer ? 'Rename' : 'Join'}
+                </Button>
+              </div>
+              {error && <p className="text-red-500 text-sm">{error}</p>}
+            </form>
+          )}
+
+          <div className="space-y-2">
+            <div className="flex justify-between text-sm text-muted-foreground">
+              <span>Players</span>
+              <span>{readyCount} of {players.length} ready</span>
+            </div>
+            {players.length === 0 && (
+              <div className="flex justify-center py-4">
+                <Loader2 className="h-6 w-6 animate-spin text-primary" />
+              </div>
+            )}
+            {players.map(player => (
+              <div key={player.clientId || player.id} className="flex items-center justify-between rounded-md border p-2">
+                <div className="flex items-center space-x-3">
+                  <div className={`h-8 w-8 rounded-full player-color-${player.colorIndex}`} />
+                  <span className="font-medium">
+                    {player.name}
+                    {player.clientId === localClientId && ' (you)'}
+                  </span>
+                  {player.clientId === hostClientId && (
+                    <Crown className="h-4 w-4 text-yellow-500" aria-label="Host" />
+                  )}
+                  {player.isOnline === false && (
+                    <span className="text-xs text-muted-foreground">offline</span>
+                  )}
+                </div>
+                <div className="flex items-center space-x-1">
+                  {player.isReady ? (
+                    <Badge className="bg-green-500 hover:bg-green-500">
+                      <Check className="h-3 w-3 mr-1" />
+                      Ready
+                    </Badge>
+                  ) : (
+                    <Badge variant="outline">Not ready</Badge>
+                  )}
+                  {isHost && player.clientId && player.clientId !== localClientId && (
+                    <DropdownMenu>
+                      <DropdownMenuTrigger asChild>
+                        <Button variant="ghost" size="icon" title={`Manage ${player.name}`}>
+                          <MoreVertical className="h-4 w-4" />
+                        </Button>
+                      </DropdownMenuTrigger>
+                      <DropdownMenuContent align="end">
+                        <DropdownMenuItem
+                          disabled={player.isOnline === false}
+                          onClick={() => onTransferHost(player.clientId!)}
+                        >
+                          <Crown className="h-4 w-4 mr-2" />
+                          Make host
+                        </DropdownMenuItem>
+                        <DropdownMenuSeparator />
+                        <DropdownMenuItem onClick={() => onKick(player.clientId!, false)}>
+                          Remove from room
+                        </DropdownMenuItem>
+                        <DropdownMenuItem
+                          className="text-red-500 focus:text-red-500"
+                          onClick={() => onKick(player.clientId!, true)}
+                        >
+                          Ban from room
+                        </DropdownMenuItem>
+                      </DropdownMenuContent>
+                    </DropdownMenu>
+                  )}
+                </div>
+              </div>
+            ))}
+          </div>
+        </CardContent>
+        <CardFooter className="flex flex-col space-y-2">
+          {!isSpectator && (
+            <Button
+              variant={localPlayer?.isReady ? "outline" : "default"}
+              className="w-full"
+              disabled={!localPlayer}
+              onClick={() => onReadyChange(!localPlayer?.isReady)}
+            >
+              {localPlayer?.isReady ? "I'm not ready" : "I'm ready"}
+            </Button>
+          )}
+
+          {isHost ? (
+            <Button className="w-full" disabled={!canStart} onClick={onStart}>
+              {canStart
+                ? `Start game with ${readyCount} players`
+                : `Waiting for ${MIN_PLAYERS - readyCount} more ready ${MIN_PLAYERS - readyCount === 1 ? 'player' : 'players'}`}
+            </Button>
+          ) : (
+            <p className="text-sm text-muted-foreground text-center">
+              The host starts the game once at least {MIN_PLAYERS} players are ready
+            </p>
+          )}
+
+          <Button variant="ghost" className="w-full" onClick={onLeave}>
+            <LogOut className="h-4 w-4 mr-2" />
+            Leave room
+          </Button>
+        </CardFooter>
+      </Card>
+    </div>
+  );
+};
+
+export default Lobby;
@@ -1,31 +1,70 @@
 
-import React, { useState } from 'react';
+import React, { useCallback, useEffect, useState } from 'react';
 import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
 import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Switch } from '@/components/ui/switch';
 import { InputOTP, InputOTPGroup, InputOTPSlot } from '@/components/ui/input-otp';
 import { useSocket } from '@/contexts/SocketContext';
 import { useToast } from '@/hooks/use-toast';
-import { Loader2 } from 'lucide-react';
+import { MAX_PASSPHRASE_LENGTH, RoomListing } from '@/lib/protocol';
+import { Eye, Loader2, RefreshCw, Users } from 'lucide-react';
 
 export interface MultiplayerModalProps {
   isOpen: boolean;
   onClose: () => void;
   onConfigSubmit: (roomConfig: { roomId: string; isHost: boolean }) => void;
+  // Opens the join flow with this code filled in, e.g. from an invite link
+  initialRoomCode?: string | null;
 }
 
 const MultiplayerModal: React.FC<MultiplayerModalProps> = ({
   isOpen,
   onClose,
-  onConfigSubmit
+  onConfigSubmit,
+  initialRoomCode
 }) => {
-  const [activeTab, setActiveTab] = useState<'join' | 'create'>('join');
+  const [activeTab, setActiveTab] = useState<'browse' | 'join' | 'create'>('browse');
   const [roomCode, setRoomCode] = useState<string>('');
-  const { createRoom, joinRoom, isConnecting } = useSocket();
+  const [passphrase, setPassphrase] = useState<string>('');
+  // Shown once the server asks for one
+  const [needsPassphrase, setNeedsPassphrase] = useState<boolean>(false);
+  const [isWatching, setIsWatching] = useState<boolean>(false);
+  const [isPrivate, setIsPrivate] = useState<boolean>(false);
+  const [newPassphrase, setNewPassphrase] = useState<string>('');
+  const [publicRooms, setPublicRooms] = useState<RoomListing[]>([]);
+  const [isLoadingRooms, setIsLoadingRooms] = useState<boolean>(false);
+  const { createRoom, joinRoom, listRooms, isConnected, isConnecting } = useSocket();
   const { toast } = useToast();
 
+  useEffect(() => {
+    if (isOpen && initialRoomCode) {
+      setActiveTab('join');
+      setRoomCode(initialRoomCode);
+      setNeedsPassphrase(false);
+      setPassphrase('');
+    }
+  }, [isOpen, initialRoomCode]);
+
+  const refreshRooms = useCallback(async () => {
+    setIsLoadingRooms(true);
+    setPublicRooms(await listRooms());
+    setIsLoadingRooms(false);
+  }, [listRooms]);
+
+  useEffect(() => {
+    if (isOpen && isConnected && activeTab === 'browse') {
+      refreshRooms();
+    }
+  }, [isOpen, isConnected, activeTab, refreshRooms]);
+
   const handleCreateRoom = async () => {
     try {
-      const roomId = await createRoom();
+      const roomId = await createRoom(isPrivate
+        ? { visibility: 'private', passphrase: newPassphrase.trim() || undefined }
+        : { visibility: 'public' });
       onConfigSubmit({ roomId, isHost: true });
     } catch (err) {
       console.error("Failed to create room:", err);
@@ -48,9 +87,14 @@ const MultiplayerModal: React.FC<MultiplayerModalProps> = ({
     }
 
     try {
-      const success = await joinRoom(roomCode);
-      if (success) {
+      const result = await joinRoom(roomCode, {
+        passphrase: needsPassphrase ? passphrase : undefined,
+        spectate: isWatching
+      });
+      if (result === 'joined') {
         onConfigSubmit({ roomId: roomCode, isHost: false });
+      } else if (result === 'passphrase-required' || result === 'wrong-passphrase') {
+        setNeedsPassphrase(true);
       }
     } catch (err) {
       console.error("Failed to join room:", err);
@@ -62,28 +106,55 @@ const MultiplayerModal: React.FC<MultiplayerModalProps> = ({
     }
   };
 
+  const handleJoinPublicRoom = async (listing: RoomListing, spectate: boolean) => {
+    try {
+      const result = await joinRoom(listing.roomId, { spectate });
+      if (result === 'joined') {
+        onConfigSubmit({ roomId: listing.roomId, isHost: false });
+      } else {
+        refreshRooms();
+      }
+    } catch (err) {
+      console.error("Failed to join room:", err);
+    }
+  };
+
   const handleRoomCodeChange = (value: string) => {
     setRoomCode(value);
+    setNeedsPassphrase(false);
+    setPassphrase('');
   };
 
+  const describeSettings = (listing: RoomListing) => [
+    `${listing.roundCount} ${listing.roundCount === 1 ? 'round' : 'rounds'}`,
+    listing.timerEnabled ? `${listing.timerDuration}s timer` : 'no timer'
+  ].join(' · ');
+
   return (
     <Dialog open={isOpen} onOpenChange={(open) => !open && onClose()}>
       <DialogContent className="sm:max-w-md">
         <DialogHeader>
           <DialogTitle>Multiplayer Game</DialogTitle>
           <DialogDescription>
-            Join an existing game or create a new room
+            Pick an open room, join one by code or create a new room
           </DialogDescription>
         </DialogHeader>
 
         <div className="flex flex-col space-y-6 pt-4">
           <div className="flex w-full rounded-lg overflow-hidden">
+            <Button
+              variant={activeTab === 'browse' ? "default" : "outline"}
+              className="flex-1 rounded-none"
+              onClick={() => setActiveTab('browse')}
+            >
+              Open Rooms
+            </Button>
             <Button
               variant={activeTab === 'join' ? "default" : "outline"}
               className="flex-1 rounded-none"
               onClick={() => setActiveTab('join')}
             >
-              Join Room
+              Join by Code
             </Button>
             <Button
               variant={activeTab === 'create' ? "default" : "outline"}
@@ -94,7 +165,77 @@ const MultiplayerModal: React.FC<MultiplayerModalProps> = ({
             </Button>
           </div>
 
-          {activeTab === 'join' ? (
+          {activeTab === 'browse' ? (
+            <div className="space-y-4">
+              <div className="flex items-center justify-between">
+                <p className="text-sm font-medium">Public rooms</p>
+                <Button
+                  variant="ghost"
+                  size="sm"
+                  onClick={refreshRooms}
+                  disabled={isLoadingRooms || !isConnected}
+                >
+                  <RefreshCw className={`h-4 w-4 mr-1 ${isLoadingRooms ? 'animate-spin' : ''}`} />
+                  Refresh
+                </Button>
+              </div>
+
+              {publicRooms.length === 0 ? (
+                <p className="text-sm text-center text-muted-foreground py-6">
+                  {isLoadingRooms ? 'Looking for rooms...' : 'No open rooms right now. Create one!'}
+                </p>
+              ) : (
+                <div className="space-y-2 max-h-72 overflow-y-auto">
+                  {publicRooms.map(listing => {
+                    const isFull = listing.playerCount >= listing.maxPlayers;
+                    return (
+                      <div
+                        key={listing.roomId}
+                        className="flex items-center justify-between p-3 rounded-md border"
+                      >
+                        <div className="space-y-1">
+                          <div className="flex items-center gap-2">
+                            <span className="font-medium">
+                              {listing.hostName ? `${listing.hostName}'s room` : `Room ${listing.roomId}`}
+                            </span>
+                            {listing.inProgress && <Badge variant="secondary">In game</Badge>}
+                          </div>
+                          <div className="flex items-center text-xs text-muted-foreground">
+                            <Users className="h-3 w-3 mr-1" />
+                            {listing.playerCount}/{listing.maxPlayers} · {describeSettings(listing)}
+                            {listing.spectatorCount > 0 && (
+                              <>
+                                <Eye className="h-3 w-3 ml-2 mr-1" />
+                                {listing.spectatorCount}
+                              </>
+                            )}
+                          </div>
+                        </div>
+                        <div className="flex gap-1">
+                          <Button
+                            variant="ghost"
+                            size="sm"
+                            onClick={() => handleJoinPublicRoom(listing, true)}
+                            disabled={isConnecting}
+                            title="Watch without playing"
+                          >
+                            <Eye className="h-4 w-4" />
+                          </Button>
+                          <Button
+                            size="sm"
+                            onClick={() => handleJoinPublicRoom(listing, false)}
+                            disabled={isFull || isConnecting}
+                          >
+                            {isFull ? 'Full' : 'Join'}
+                          </Button>
+                        </div>
+                      </div>
+                    );
+                  })}
+                </div>
+              )}
+            </div>
+          ) : activeTab === 'join' ? (
             <div className="space-y-4">
               <div className="flex flex-col items-center justify-center text-center space-y-3">
                 <div className="text-sm font-medium">
@@ -117,11 +258,40 @@ const MultiplayerModal: React.FC<MultiplayerModalProps> = ({
                   </InputOTPGroup>
                 </InputOTP>
               </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label htmlFor="watch-toggle">Watch as a spectator</Label>
+                  <p className="text-xs text-muted-foreground">
+                    See the drawings and results without playing, even in a full room
+                  </p>
+                </div>
+                <Switch
+                  id="watch-toggle"
+                  checked={isWatching}
+                  onCheckedChange={setIsWatching}
+                />
+              </div>
+
+              {needsPassphrase && (
+                <div className="space-y-2">
+                  <Label htmlFor="join-passphrase">This room is private, enter its passphrase</Label>
+                  <Input
+                    id="join-passphrase"
+                    type="password"
+                    value={passphrase}
+                    maxLength={MAX_PASSPHRASE_LENGTH}
+                    onChange={(e) => setPassphrase(e.target.value)}
+                    onKeyDown={(e) => e.key === 'Enter' && handleJoinRoom()}
+                    autoFocus
+                  />
+                </div>
+              )}
               
               <Button 
                 className="w-full" 
                 onClick={handleJoinRoom}
-                disabled={roomCode.length !== 6 || isConnecting}
+                disabled={roomCode.length !== 6 || (needsPassphrase && !passphrase.trim()) || isConnecting}
               >
                 {isConnecting ? (
                   <>
@@ -137,6 +307,36 @@ const MultiplayerModal: React.FC<MultiplayerModalProps> = ({
               <div className="text-center">
                 <p>Create a new room and invite friends to join</p>
               </div>
+
+              <div className="flex items-center justify-between">
+                <div className="space-y-1">
+                  <Label htmlFor="private-toggle">Private room</Label>
+                  <p className="text-xs text-muted-foreground">
+                    {isPrivate
+                      ? 'Only players with the room code can join'
+                      : 'Anyone can find this room under Open Rooms'}
+                  </p>
+                </div>
+                <Switch
+                  id="private-toggle"
+                  checked={isPrivate}
+                  onCheckedChange={setIsPrivate}
+                />
+              </div>
+
+              {isPrivate && (
+                <div className="space-y-2">
+                  <Label htmlFor="new-passphrase">Passphrase (optional)</Label>
+                  <Input
+                    id="new-passphrase"
+                    type="password"
+                    placeholder="Leave empty to only need the code"
+                    value={newPassphrase}
+                    maxLength={MAX_PASSPHRASE_LENGTH}
+                    onChange={(e) => setNewPassphrase(e.target.value)}
+                  />
+                </div>
+              )}
               <Button 
                 className="w-full" 
                 onClick={handleCreateRoom}
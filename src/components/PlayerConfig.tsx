@@ -7,6 +7,7 @@ import { Player, GameConfig } from '@/types/game';
 import { useToast } from "@/hooks/use-toast";
 import { useSocket } from '@/contexts/SocketContext';
 import { getRandomName } from '@/data/wordsList';
+import { assignImposters, getImposterCount } from '@/lib/imposters';
 
 const PLAYER_COLORS = [
   '#FF5733', '#33FF57', '#3357FF', '#F433FF', 
@@ -78,12 +79,8 @@ const PlayerConfig: React.FC<PlayerConfigProps> = ({
       setCurrentPlayerName(getRandomName());
       setIsEditingName(false);
     } else {
-      const imposterIndex = Math.floor(Math.random() * config.playerCount);
-      const finalPlayers = updatedPlayers.map((player, index) => ({
-        ...player,
-        isImposter: index === imposterIndex
-      }));
-      
+      const finalPlayers = assignImposters(updatedPlayers, getImposterCount(config, config.playerCount));
+
       onPlayersConfigured(finalPlayers);
     }
   };
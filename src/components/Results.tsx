@@ -3,15 +3,24 @@ import { Card, CardContent, CardHeader, CardTitle, CardFooter } from "@/componen
 import { Button } from "@/components/ui/button";
 import { Player, Stroke } from '@/types/game';
 import { AspectRatio } from '@/components/ui/aspect-ratio';
+import { getEliminatedPlayers } from '@/lib/imposters';
+import { isCorrectGuess } from '@/lib/word-guess';
+import { toCanvasStroke } from '@/lib/drawing-stream';
 
 interface ResultsProps {
   players: Player[];
   votes: Record<number, number>;
   secretWord: string;
+  secretCategory?: string;
   onPlayAgain: () => void;
   onReturnHome: () => void;
   isMultiplayer?: boolean;
+  canPlayAgain?: boolean;
   strokes?: Stroke[];
+  // As many of the most voted players are put out
+  imposterCount?: number;
+  // Caught imposters' guesses at the word, by seat
+  wordGuesses?: Record<number, string>;
 }
 
 const getPlayerColor = (colorIndex: number): string => {
@@ -26,28 +35,40 @@ const Results: React.FC<ResultsProps> = ({
   players,
   votes,
   secretWord,
+  secretCategory,
   onPlayAgain,
   onReturnHome,
   isMultiplayer = false,
-  strokes = []
+  canPlayAgain = true,
+  strokes = [],
+  imposterCount = 1,
+  wordGuesses = {}
 }) => {
   const canvasRef = useRef<HTMLCanvasElement>(null);
   const [canvasSize, setCanvasSize] = React.useState({ width: 350, height: 350 });
   
-  // Find the player with the most votes
-  const mostVotedPlayerId = Object.entries(votes).reduce(
-    (maxEntry, entry) => {
-      const [playerId, voteCount] = entry;
-      return voteCount > maxEntry[1] ? [playerId, voteCount] : maxEntry;
-    },
-    ['0', 0]
-  )[0];
-
-  const mostVotedPlayer = players.find(p => p.id === parseInt(mostVotedPlayerId));
+  // The most voted players are out, as many as there are imposters
+  const eliminatedPlayers = getEliminatedPlayers(players, votes, imposterCount);
   
-  // Find the actual Kaun Artist
-  const imposter = players.find(p => p.isImposter);
-  const imposterCorrectlyIdentified = mostVotedPlayer?.isImposter;
+  // Find the actual Kaun Artists
+  const imposters = players.filter(p => p.isImposter);
+  const caughtCount = eliminatedPlayers.filter(p => p.isImposter).length;
+  const guessers = players.filter(p => wordGuesses[p.id] !== undefined);
+  const hasNamedWord = guessers.some(p => isCorrectGuess(wordGuesses[p.id], secretWord));
+
+  const getOutcome = () => {
+    if (hasNamedWord) {
+      return imposters.length <= 1
+        ? "Caught, but the Kaun Artist named the word and wins! 🥷"
+        : "Caught, but the Kaun Artists named the word and win! 🥷";
+    }
+    if (imposters.length <= 1) {
+      return caughtCount > 0 ? "You caught the Kaun Artist! 🥷" : "The Kaun Artist fooled everyone! 🥷";
+    }
+    if (caughtCount === imposters.length) return "You caught every Kaun Artist! 🥷";
+    if (caughtCount > 0) return `You caught ${caughtCount} of ${imposters.length} Kaun Artists! 🥷`;
+    return "The Kaun Artists fooled everyone! 🥷";
+  };
 
   // Draw the final image when component loads
   useEffect(() => {
@@ -62,21 +83,19 @@ const Results: React.FC<ResultsProps> = ({
     context.fillRect(0, 0, canvas.width, canvas.height);
     
     // Draw all strokes
-    strokes.forEach(stroke => {
+    strokes.map(stroke => toCanvasStroke(stroke, canvasSize)).forEach(stroke => {
       if (stroke.points.length < 1) return;
       
       context.beginPath();
       context.moveTo(stroke.points[0].x, stroke.points[0].y);
-      stroke.points.forEach((point, i) => {
-        if (i > 0) context.lineTo(point.x, point.y);
-      });
+      stroke.points.forEach(point => context.lineTo(point.x, point.y));
       context.strokeStyle = stroke.color;
       context.lineWidth = stroke.width;
       context.lineCap = 'round';
       context.lineJoin = 'round';
       context.stroke();
     });
-  }, [strokes]);
+  }, [strokes, canvasSize]);
 
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
@@ -88,6 +107,7 @@ const Results: React.FC<ResultsProps> = ({
           <div className="flex justify-center flex-col items-center">
             <p className="text-xl font-medium mb-2">
               The word was: <span className="font-bold">{secretWord}</span>
+              {secretCategory && <span className="text-muted-foreground"> ({secretCategory})</span>}
             </p>
             
             {/* Display the final drawing */}
@@ -124,42 +144,57 @@ const Results: React.FC<ResultsProps> = ({
             </div>
           </div>
           
-          {imposter && (
+          {imposters.length > 0 && (
             <div className="flex flex-col items-center bg-card p-4 rounded-lg border">
-              <p className="mb-1">The Kaun Artist was: 🥷</p>
-              <div className="flex items-center gap-2">
-                <div 
-                  className="h-6 w-6 rounded-full"
-                  style={{ backgroundColor: getPlayerColor(imposter.colorIndex) }}
-                />
-                <span className="font-bold text-lg">{imposter.name}</span>
-              </div>
+              <p className="mb-1">
+                {imposters.length === 1 ? 'The Kaun Artist was: 🥷' : 'The Kaun Artists were: 🥷'}
+              </p>
+              {imposters.map(imposter => (
+                <div key={imposter.id} className="flex items-center gap-2">
+                  <div 
+                    className="h-6 w-6 rounded-full"
+                    style={{ backgroundColor: getPlayerColor(imposter.colorIndex) }}
+                  />
+                  <span className="font-bold text-lg">{imposter.name}</span>
+                </div>
+              ))}
             </div>
           )}
 
-          {mostVotedPlayer && (
+          {eliminatedPlayers.length > 0 && (
             <div className="flex flex-col items-center">
-              <p>Most voted player:</p>
-              <div className="flex items-center gap-2">
-                <div 
-                  className="h-6 w-6 rounded-full"
-                  style={{ backgroundColor: getPlayerColor(mostVotedPlayer.colorIndex) }}
-                />
-                <span className="font-bold">{mostVotedPlayer.name}</span>
-                <span>({votes[mostVotedPlayer.id]} votes)</span>
-              </div>
+              <p>{eliminatedPlayers.length === 1 ? 'Most voted player:' : 'Most voted players:'}</p>
+              {eliminatedPlayers.map(player => (
+                <div key={player.id} className="flex items-center gap-2">
+                  <div 
+                    className="h-6 w-6 rounded-full"
+                    style={{ backgroundColor: getPlayerColor(player.colorIndex) }}
+                  />
+                  <span className="font-bold">{player.name}</span>
+                  <span>({votes[player.id]} votes)</span>
+                </div>
+              ))}
+              {guessers.map(player => (
+                <p key={player.id} className="text-sm text-muted-foreground">
+                  {wordGuesses[player.id]
+                    ? `${player.name} guessed "${wordGuesses[player.id]}"${isCorrectGuess(wordGuesses[player.id], secretWord) ? ' ✓' : ''}`
+                    : `${player.name} gave up their guess`}
+                </p>
+              ))}
               <p className="mt-2 text-lg">
-                {imposterCorrectlyIdentified 
-                  ? "You caught the Kaun Artist! 🥷" 
-                  : "The Kaun Artist fooled everyone! 🥷"}
+                {getOutcome()}
               </p>
             </div>
           )}
         </CardContent>
         <CardFooter className="flex gap-4 justify-center">
-          <Button onClick={onPlayAgain}>
-            Play Again
-          </Button>
+          {canPlayAgain ? (
+            <Button onClick={onPlayAgain}>
+              Play Again
+            </Button>
+          ) : (
+            <p className="text-sm text-muted-foreground">Waiting for the host to start the next game...</p>
+          )}
           <Button variant="outline" onClick={onReturnHome}>
             Return Home
           </Button>
@@ -0,0 +1,64 @@
+import React from 'react';
+import { QRCodeSVG } from 'qrcode.react';
+import { Button } from "@/components/ui/button";
+import { Copy, Link } from 'lucide-react';
+import { useToast } from "@/hooks/use-toast";
+import { getInviteLink } from '@/lib/invite';
+
+export interface RoomInviteProps {
+  roomId: string;
+  // The QR code is drawn in the browser, no network needed
+  showQrCode: boolean;
+}
+
+const RoomInvite: React.FC<RoomInviteProps> = ({ roomId, showQrCode }) => {
+  const { toast } = useToast();
+  const inviteLink = getInviteLink(roomId);
+
+  const copy = async (text: string, title: string) => {
+    try {
+      await navigator.clipboard.writeText(text);
+      toast({
+        title,
+        description: "Share it with your friends so they can join"
+      });
+    } catch (err) {
+      console.error("Failed to copy to clipboard:", err);
+      toast({
+        title: "Couldn't copy",
+        description: text,
+        variant: "destructive"
+      });
+    }
+  };
+
+  return (
+    <div className="flex flex-col items-center space-y-3">
+      <div className="flex items-center justify-center space-x-2">
+        <span className="text-sm text-muted-foreground">Room code</span>
+        <span className="font-mono text-2xl font-bold tracking-widest">{roomId}</span>
+        <Button
+          variant="ghost"
+          size="icon"
+          onClick={() => copy(roomId, "Room code copied")}
+          title="Copy room code"
+        >
+          <Copy className="h-4 w-4" />
+        </Button>
+      </div>
+
+      {showQrCode && (
+        <div className="rounded-md bg-white p-3">
+          <QRCodeSVG value={inviteLink} size={160} marginSize={0} title={`Invite link for room ${roomId}`} />
+        </div>
+      )}
+
+      <Button variant="outline" size="sm" onClick={() => copy(inviteLink, "Invite link copied")}>
+        <Link className="h-4 w-4 mr-2" />
+        Copy invite link
+      </Button>
+    </div>
+  );
+};
+
+export default RoomInvite;
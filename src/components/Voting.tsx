@@ -2,11 +2,11 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Player, Stroke } from '@/types/game';
-import { useSocket } from '@/contexts/SocketContext';
 import { Badge } from '@/components/ui/badge';
 import { useToast } from "@/hooks/use-toast";
 import { AspectRatio } from '@/components/ui/aspect-ratio';
 import { useCanvasSize } from '@/hooks/use-canvas-size';
+import { toCanvasStroke } from '@/lib/drawing-stream';
 import PlayerColorLegend from './PlayerColorLegend';
 
 export interface VotingProps {
@@ -15,6 +15,19 @@ export interface VotingProps {
   strokes: Stroke[];
   onVotingComplete: (votes: Record<number, number>) => void;
   isMultiplayer?: boolean;
+  // Multiplayer voting state, kept by the host
+  localPlayerId?: number;
+  ballots?: Record<number, number>;
+  votedPlayerIds?: number[];
+  lockedPlayerIds?: number[];
+  // Spectators follow the vote but cannot take part
+  isSpectator?: boolean;
+  onCastVote?: (voteFor: number, lockIn: boolean) => void;
+  // The host can close voting with the ballots cast so far
+  canEndVoting?: boolean;
+  onEndVoting?: () => void;
+  // As many of the most voted players are put out
+  imposterCount?: number;
 }
 
 const Voting: React.FC<VotingProps> = ({
@@ -22,7 +35,16 @@ const Voting: React.FC<VotingProps> = ({
   secretWord,
   strokes,
   onVotingComplete,
-  isMultiplayer = false
+  isMultiplayer = false,
+  localPlayerId,
+  ballots = {},
+  votedPlayerIds = [],
+  lockedPlayerIds = [],
+  isSpectator = false,
+  onCastVote,
+  canEndVoting = false,
+  onEndVoting,
+  imposterCount = 1
 }) => {
   const [selectedPlayerId, setSelectedPlayerId] = useState<number | null>(null);
   const [votes, setVotes] = useState<Record<number, number>>({});
@@ -32,7 +54,6 @@ const Voting: React.FC<VotingProps> = ({
   const canvasRef = React.useRef<HTMLCanvasElement>(null);
   const containerRef = React.useRef<HTMLDivElement>(null);
   
-  const { socket, roomId } = useSocket();
   const { toast } = useToast();
   
   // Use the canvas size hook for responsive canvas
@@ -54,14 +75,12 @@ const Voting: React.FC<VotingProps> = ({
     context.fillRect(0, 0, canvas.width, canvas.height);
     
     // Draw all strokes
-    strokes.forEach(stroke => {
+    strokes.map(stroke => toCanvasStroke(stroke, canvasSize)).forEach(stroke => {
       if (stroke.points.length < 1) return;
       
       context.beginPath();
       context.moveTo(stroke.points[0].x, stroke.points[0].y);
-      stroke.points.forEach((point, i) => {
-        if (i > 0) context.lineTo(point.x, point.y);
-      });
+      stroke.points.forEach(point => context.lineTo(point.x, point.y));
       context.strokeStyle = stroke.color;
       context.lineWidth = stroke.width;
       context.lineCap = 'round';
@@ -70,39 +89,19 @@ const Voting: React.FC<VotingProps> = ({
     });
   }, [strokes, canvasSize]);
 
-  // Setup vote collection for multiplayer
+  // Get the name of the currently voting player for local game
+  const currentVotingPlayerName = players.find(p => p.id === votingPlayerId)?.name || "Player";
+  
+  // Determine if the current player has already voted (different for local vs multiplayer)
+  const hasCurrentPlayerVoted = isMultiplayer 
+    ? lockedPlayerIds.includes(localPlayerId)
+    : playerVotes.has(votingPlayerId);
+  
+  // Our ballot as the host last recorded it
+  const myBallot = isMultiplayer && localPlayerId !== undefined ? ballots[localPlayerId] : undefined;
   useEffect(() => {
-    if (!isMultiplayer || !socket) return;
-
-    const handleVote = (data: { playerId: number, voteFor: number }) => {
-      console.log(`Player ${data.playerId} voted for ${data.voteFor}`);
-      
-      setVotes(currentVotes => {
-        const newVotes = { ...currentVotes };
-        newVotes[data.voteFor] = (newVotes[data.voteFor] || 0) + 1;
-        return newVotes;
-      });
-      
-      setPlayersWhoVoted(current => {
-        const updated = new Set(current);
-        updated.add(data.playerId);
-        return updated;
-      });
-      
-      // Check if all players have voted
-      if (playersWhoVoted.size + 1 >= players.length) {
-        setTimeout(() => {
-          onVotingComplete({ ...votes, [data.voteFor]: (votes[data.voteFor] || 0) + 1 });
-        }, 1000);
-      }
-    };
-
-    socket.on('player-vote', handleVote);
-
-    return () => {
-      socket.off('player-vote', handleVote);
-    };
-  }, [isMultiplayer, socket, players.length, votes, playersWhoVoted, onVotingComplete]);
+    if (myBallot !== undefined) setSelectedPlayerId(myBallot);
+  }, [myBallot]);
 
   const handleVoteForLocalGame = () => {
     if (selectedPlayerId === null) {
@@ -154,6 +153,14 @@ const Voting: React.FC<VotingProps> = ({
     }
   };
 
+  // Multiplayer: picking a player casts or changes our ballot on the host
+  const handleSelectPlayer = (playerId: number) => {
+    setSelectedPlayerId(playerId);
+    if (isMultiplayer && !hasCurrentPlayerVoted) {
+      onCastVote?.(playerId, false);
+    }
+  };
+
   const handleVoteMultiplayer = () => {
     if (selectedPlayerId === null) {
       toast({
@@ -163,52 +170,13 @@ const Voting: React.FC<VotingProps> = ({
       });
       return;
     }
-    
-    // Get the local player ID - for multiplayer this might be different
-    const localPlayerId = players[0]?.id;
-    
-    // Check if already voted
-    if (playersWhoVoted.has(localPlayerId)) {
-      toast({
-        title: "Already voted",
-        description: "You've already cast your vote.",
-        variant: "destructive"
-      });
-      return;
-    }
-    
-    // Update local votes state
-    const updatedVotes = { ...votes };
-    updatedVotes[selectedPlayerId] = (updatedVotes[selectedPlayerId] || 0) + 1;
-    setVotes(updatedVotes);
-    
-    // Add self to players who voted
-    setPlayersWhoVoted(current => {
-      const updated = new Set(current);
-      updated.add(localPlayerId);
-      return updated;
-    });
+
+    onCastVote?.(selectedPlayerId, true);
 
     toast({
-      title: "Vote recorded",
+      title: "Vote locked in",
       description: `You voted for ${players.find(p => p.id === selectedPlayerId)?.name}`,
     });
-
-    // In multiplayer, emit vote to other players
-    if (isMultiplayer && socket && roomId) {
-      socket.emit('player-vote', { 
-        roomId,
-        playerId: localPlayerId,
-        voteFor: selectedPlayerId
-      });
-    }
-
-    // Check if all players have voted in multiplayer
-    if (playersWhoVoted.size + 1 >= players.length) {
-      setTimeout(() => {
-        onVotingComplete(updatedVotes);
-      }, 1000);
-    }
   };
 
   const handleVote = () => {
@@ -219,14 +187,6 @@ const Voting: React.FC<VotingProps> = ({
     }
   };
 
-  // Get the name of the currently voting player for local game
-  const currentVotingPlayerName = players.find(p => p.id === votingPlayerId)?.name || "Player";
-  
-  // Determine if the current player has already voted (different for local vs multiplayer)
-  const hasCurrentPlayerVoted = isMultiplayer 
-    ? playersWhoVoted.has(players[0]?.id) 
-    : playerVotes.has(votingPlayerId);
-
   return (
     <div className="min-h-screen flex items-center justify-center p-4">
       <Card className="w-full max-w-md">
@@ -240,8 +200,15 @@ const Voting: React.FC<VotingProps> = ({
         </CardHeader>
         <CardContent className="space-y-4">
           <p className="text-lg text-center">
-            Kaun you guess who is the imposter?
+            {imposterCount > 1
+              ? `Kaun you guess who the ${imposterCount} imposters are?`
+              : "Kaun you guess who is the imposter?"}
           </p>
+          {imposterCount > 1 && (
+            <p className="text-sm text-center text-muted-foreground">
+              The {imposterCount} most voted players are out
+            </p>
+          )}
           
           {/* Display the final drawing */}
           <div className="mb-4">
@@ -272,31 +239,64 @@ const Voting: React.FC<VotingProps> = ({
                   className={`flex items-center justify-start gap-2 ${
                     selectedPlayerId === player.id ? "bg-primary text-primary-foreground" : ""
                   }`}
-                  onClick={() => setSelectedPlayerId(player.id)}
+                  onClick={() => handleSelectPlayer(player.id)}
+                  disabled={hasCurrentPlayerVoted || isSpectator}
                 >
-                  <div 
-                    className="h-4 w-4 rounded-full" 
-                    style={{ backgroundColor: players.find(p => p.id === player.id)?.color || "#ccc" }}
-                  />
+                  <div className={`h-4 w-4 rounded-full player-color-${player.colorIndex}`} />
                   <span>{player.name}</span>
                 </Button>
               ))}
             </div>
             
-            <Button
-              className="w-full"
-              onClick={handleVote}
-              disabled={selectedPlayerId === null || hasCurrentPlayerVoted}
-            >
-              {hasCurrentPlayerVoted ? "Vote submitted" : "Submit Vote"}
-            </Button>
+            {isSpectator ? (
+              <p className="text-sm text-center text-muted-foreground">
+                You are watching, only players can vote
+              </p>
+            ) : (
+              <Button
+                className="w-full"
+                onClick={handleVote}
+                disabled={selectedPlayerId === null || hasCurrentPlayerVoted}
+              >
+                {hasCurrentPlayerVoted
+                  ? "Vote submitted"
+                  : isMultiplayer ? "Lock in vote" : "Submit Vote"}
+              </Button>
+            )}
           </div>
           
-          {playersWhoVoted.size > 0 && (
+          {!isMultiplayer && playersWhoVoted.size > 0 && (
             <p className="text-sm text-center text-muted-foreground">
               {playersWhoVoted.size} of {players.length} players have voted
             </p>
           )}
+
+          {isMultiplayer && (
+            <div className="space-y-1">
+              <p className="text-sm text-center text-muted-foreground">
+                {lockedPlayerIds.length} of {players.length} players have locked in
+              </p>
+              <div className="flex flex-wrap justify-center gap-2">
+                {players.map(player => (
+                  <Badge
+                    key={player.id}
+                    variant={lockedPlayerIds.includes(player.id) ? "default" : "outline"}
+                    className={votedPlayerIds.includes(player.id) ? "" : "opacity-50"}
+                  >
+                    {player.name}
+                    {lockedPlayerIds.includes(player.id)
+                      ? " ✓"
+                      : votedPlayerIds.includes(player.id) ? " …" : ""}
+                  </Badge>
+                ))}
+              </div>
+              {canEndVoting && lockedPlayerIds.length < players.length && (
+                <Button variant="outline" className="w-full mt-2" onClick={onEndVoting}>
+                  End voting now
+                </Button>
+              )}
+            </div>
+          )}
         </CardContent>
       </Card>
     </div>
@@ -0,0 +1,106 @@
+import React, { useState } from 'react';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Loader2 } from 'lucide-react';
+import { Player } from '@/types/game';
+import { MAX_GUESS_LENGTH } from '@/lib/word-guess';
+
+export interface WordGuessProps {
+  players: Player[];
+  // The caught imposters, and the guesses they have made so far
+  guessingPlayerIds: number[];
+  wordGuesses: Record<number, string>;
+  isMultiplayer?: boolean;
+  localPlayerId?: number;
+  onSubmitGuess: (playerId: number, guess: string) => void;
+}
+
+const WordGuess: React.FC<WordGuessProps> = ({
+  players,
+  guessingPlayerIds,
+  wordGuesses,
+  isMultiplayer = false,
+  localPlayerId,
+  onSubmitGuess
+}) => {
+  const [guess, setGuess] = useState('');
+
+  const guessers = players.filter(p => guessingPlayerIds.includes(p.id));
+  const pendingGuessers = guessers.filter(p => wordGuesses[p.id] === undefined);
+
+  // Multiplayer: only the caught imposter's own device asks for the guess.
+  // Local games take the guesses one after the other on this device.
+  const guesser = isMultiplayer
+    ? pendingGuessers.find(p => p.id === localPlayerId)
+    : pendingGuessers[0];
+
+  const handleSubmit = (e: React.FormEvent) => {
+    e.preventDefault();
+    const text = guess.trim();
+    if (!guesser || !text) return;
+
+    onSubmitGuess(guesser.id, text);
+    setGuess('');
+  };
+
+  return (
+    <div className="min-h-screen flex items-center justify-center p-4">
+      <Card className="w-full max-w-md animate-fade-in">
+        <CardHeader>
+          <CardTitle className="text-2xl font-bold text-center">
+            {guessers.length === 1 ? 'Kaun Artist caught! 🥷' : 'Kaun Artists caught! 🥷'}
+          </CardTitle>
+          <CardDescription className="text-center">
+            Naming the word still wins the game for the Kaun Artists
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-4">
+          <div className="space-y-2">
+            {guessers.map(player => (
+              <div key={player.id} className="flex items-center justify-between rounded-md border p-2">
+                <div className="flex items-center gap-2">
+                  <div className={`h-4 w-4 rounded-full player-color-${player.colorIndex}`} />
+                  <span className="font-medium">
+                    {player.name}
+                    {player.id === localPlayerId && ' (you)'}
+                  </span>
+                </div>
+                <span className="text-sm text-muted-foreground">
+                  {wordGuesses[player.id] === undefined
+                    ? 'Guessing...'
+                    : wordGuesses[player.id] ? `"${wordGuesses[player.id]}"` : 'Gave up'}
+                </span>
+              </div>
+            ))}
+          </div>
+
+          {guesser ? (
+            <form onSubmit={handleSubmit} className="space-y-2">
+              <p className="text-center">
+                {isMultiplayer ? 'What was the word?' : `${guesser.name}, what was the word?`}
+              </p>
+              <Input
+                placeholder="Your one guess"
+                value={guess}
+                onChange={(e) => setGuess(e.target.value)}
+                maxLength={MAX_GUESS_LENGTH}
+                autoFocus
+              />
+              <Button type="submit" className="w-full" disabled={!guess.trim()}>
+                Guess the word
+              </Button>
+            </form>
+          ) : (
+            <div className="flex items-center justify-center gap-2 text-muted-foreground">
+              <Loader2 className="h-4 w-4 animate-spin" />
+              <p className="text-sm">Waiting for the guess...</p>
+            </div>
+          )}
+        </CardContent>
+      </Card>
+    </div>
+  );
+};
+
+export default WordGuess;
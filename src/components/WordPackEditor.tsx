@@ -0,0 +1,264 @@
+import React, { useRef, useState } from 'react';
+import { Dialog, DialogContent, DialogHeader, DialogTitle, DialogDescription } from '@/components/ui/dialog';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Input } from '@/components/ui/input';
+import { Label } from '@/components/ui/label';
+import { Textarea } from '@/components/ui/textarea';
+import { Select, SelectContent, SelectItem, SelectTrigger, SelectValue } from '@/components/ui/select';
+import { useToast } from '@/hooks/use-toast';
+import { WordDifficulty, WordPack } from '@/types/game';
+import { createCustomWordPack, exportWordPack, importWordPack } from '@/lib/custom-word-packs';
+import {
+  formatWordPackText,
+  getWordCount,
+  getWordPackProblems,
+  MAX_PACK_DESCRIPTION_LENGTH,
+  MAX_PACK_NAME_LENGTH,
+  parseWordPackText
+} from '@/lib/word-packs';
+import { Download, FileText, Pencil, Plus, Trash2, Upload } from 'lucide-react';
+
+export interface WordPackEditorProps {
+  isOpen: boolean;
+  onClose: () => void;
+  packs: WordPack[];
+  onSavePack: (pack: WordPack) => void;
+  onDeletePack: (id: string) => void;
+}
+
+// The pack being edited, with its words as plain text
+interface PackDraft {
+  pack: WordPack;
+  text: string;
+}
+
+const MAX_SHOWN_PROBLEMS = 5;
+
+const downloadFile = ({ fileName, type, content }: { fileName: string; type: string; content: string }) => {
+  const url = URL.createObjectURL(new Blob([content], { type }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = fileName;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+const WordPackEditor: React.FC<WordPackEditorProps> = ({
+  isOpen,
+  onClose,
+  packs,
+  onSavePack,
+  onDeletePack
+}) => {
+  const [draft, setDraft] = useState<PackDraft | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+  const { toast } = useToast();
+
+  const draftPack = draft && { ...draft.pack, categories: parseWordPackText(draft.text) };
+  const problems = draftPack ? getWordPackProblems(draftPack) : [];
+
+  const handleClose = () => {
+    setDraft(null);
+    onClose();
+  };
+
+  const handleEdit = (pack: WordPack) => {
+    setDraft({ pack, text: formatWordPackText(pack.categories) });
+  };
+
+  const handleNew = () => {
+    setDraft({ pack: createCustomWordPack(), text: '' });
+  };
+
+  const updateDraftPack = (changes: Partial<WordPack>) => {
+    setDraft(current => current && { ...current, pack: { ...current.pack, ...changes } });
+  };
+
+  const handleSave = () => {
+    if (!draftPack || problems.length) return;
+
+    onSavePack({ ...draftPack, name: draftPack.name.trim(), description: draftPack.description?.trim() || undefined });
+    setDraft(null);
+    toast({
+      title: "Word pack saved",
+      description: `${draftPack.name.trim()} has ${getWordCount(draftPack)} words.`
+    });
+  };
+
+  const handleDelete = (pack: WordPack) => {
+    onDeletePack(pack.id);
+    toast({
+      title: "Word pack deleted",
+      description: `${pack.name} is gone from this browser.`
+    });
+  };
+
+  const handleImport = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (!file) return;
+
+    const result = importWordPack(file.name, await file.text());
+    if (result.problems) {
+      toast({
+        title: "Could not import the pack",
+        description: result.problems.slice(0, MAX_SHOWN_PROBLEMS).join('. '),
+        variant: "destructive"
+      });
+      return;
+    }
+
+    onSavePack(result.pack);
+    toast({
+      title: "Word pack imported",
+      description: `${result.pack.name} has ${getWordCount(result.pack)} words.`
+    });
+  };
+
+  const renderPackList = () => (
+    <div className="space-y-4">
+      {packs.length === 0 ? (
+        <p className="text-sm text-center text-muted-foreground">No custom packs yet</p>
+      ) : (
+        <div className="space-y-2">
+          {packs.map(pack => (
+            <div key={pack.id} className="flex items-center justify-between rounded-md border p-2">
+              <div className="min-w-0">
+                <p className="font-medium truncate">{pack.name}</p>
+                <p className="text-xs text-muted-foreground">
+                  {getWordCount(pack)} words, {pack.categories.length} {pack.categories.length === 1 ? 'category' : 'categories'}
+                </p>
+              </div>
+              <div className="flex shrink-0">
+                <Button variant="ghost" size="icon" title="Edit" onClick={() => handleEdit(pack)}>
+                  <Pencil className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" title="Export as JSON" onClick={() => downloadFile(exportWordPack(pack, 'json'))}>
+                  <Download className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" title="Export as text" onClick={() => downloadFile(exportWordPack(pack, 'text'))}>
+                  <FileText className="h-4 w-4" />
+                </Button>
+                <Button variant="ghost" size="icon" title="Delete" onClick={() => handleDelete(pack)}>
+                  <Trash2 className="h-4 w-4" />
+                </Button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+
+      <div className="flex gap-2">
+        <Button className="flex-1" onClick={handleNew}>
+          <Plus className="mr-2 h-4 w-4" /> New Pack
+        </Button>
+        <Button className="flex-1" variant="outline" onClick={() => fileInputRef.current?.click()}>
+          <Upload className="mr-2 h-4 w-4" /> Import
+        </Button>
+        <input
+          ref={fileInputRef}
+          type="file"
+          accept=".json,.txt,application/json,text/plain"
+          className="hidden"
+          onChange={handleImport}
+        />
+      </div>
+      <p className="text-xs text-muted-foreground">
+        Import a pack exported as JSON, or a text file with one word per line
+      </p>
+    </div>
+  );
+
+  const renderDraft = () => (
+    <div className="space-y-4">
+      <div className="space-y-2">
+        <Label htmlFor="pack-name">Name</Label>
+        <Input
+          id="pack-name"
+          value={draft.pack.name}
+          onChange={(e) => updateDraftPack({ name: e.target.value })}
+          maxLength={MAX_PACK_NAME_LENGTH}
+          placeholder="Office in-jokes"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="pack-description">Description</Label>
+        <Input
+          id="pack-description"
+          value={draft.pack.description || ''}
+          onChange={(e) => updateDraftPack({ description: e.target.value })}
+          maxLength={MAX_PACK_DESCRIPTION_LENGTH}
+          placeholder="Optional"
+        />
+      </div>
+
+      <div className="space-y-2">
+        <Label htmlFor="pack-difficulty">Difficulty</Label>
+        <Select
+          value={draft.pack.difficulty}
+          onValueChange={(value) => updateDraftPack({ difficulty: value as WordDifficulty })}
+        >
+          <SelectTrigger id="pack-difficulty">
+            <SelectValue />
+          </SelectTrigger>
+          <SelectContent>
+            <SelectItem value="easy">Easy</SelectItem>
+            <SelectItem value="medium">Medium</SelectItem>
+            <SelectItem value="hard">Hard</SelectItem>
+          </SelectContent>
+        </Select>
+      </div>
+
+      <div className="space-y-2">
+        <div className="flex items-center justify-between">
+          <Label htmlFor="pack-words">Words</Label>
+          <Badge variant="outline">{draftPack ? getWordCount(draftPack) : 0} words</Badge>
+        </div>
+        <Textarea
+          id="pack-words"
+          value={draft.text}
+          onChange={(e) => setDraft(current => current && { ...current, text: e.target.value })}
+          placeholder={'# Projects\nApollo\nHermes\n\n# People\nThe intern'}
+          rows={10}
+        />
+        <p className="text-xs text-muted-foreground">
+          One word per line. Start a line with # to begin a category.
+        </p>
+      </div>
+
+      {problems.length > 0 && (
+        <ul className="text-sm text-red-500 list-disc pl-5">
+          {problems.slice(0, MAX_SHOWN_PROBLEMS).map(problem => <li key={problem}>{problem}</li>)}
+          {problems.length > MAX_SHOWN_PROBLEMS && <li>and {problems.length - MAX_SHOWN_PROBLEMS} more</li>}
+        </ul>
+      )}
+
+      <div className="flex gap-2">
+        <Button variant="outline" className="flex-1" onClick={() => setDraft(null)}>
+          Cancel
+        </Button>
+        <Button className="flex-1" onClick={handleSave} disabled={problems.length > 0}>
+          Save Pack
+        </Button>
+      </div>
+    </div>
+  );
+
+  return (
+    <Dialog open={isOpen} onOpenChange={(open) => !open && handleClose()}>
+      <DialogContent className="sm:max-w-md max-h-[90vh] overflow-y-auto">
+        <DialogHeader>
+          <DialogTitle>{draft ? 'Edit Word Pack' : 'Custom Word Packs'}</DialogTitle>
+          <DialogDescription>
+            Custom packs are saved in this browser
+          </DialogDescription>
+        </DialogHeader>
+        {draft ? renderDraft() : renderPackList()}
+      </DialogContent>
+    </Dialog>
+  );
+};
+
+export default WordPackEditor;
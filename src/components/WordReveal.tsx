@@ -2,36 +2,63 @@ import React, { useState, useEffect } from 'react';
 import { Card, CardContent, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
 import { Button } from '@/components/ui/button';
 import { Player } from '@/types/game';
-import { Eye, EyeOff, UserCheck } from 'lucide-react';
+import { Check, Eye, EyeOff, Loader2, UserCheck } from 'lucide-react';
 import { useSocket } from '@/contexts/SocketContext';
+import { getFellowImposters } from '@/lib/imposters';
 
 export interface WordRevealProps {
   players: Player[];
   secretWord: string;
   onComplete: () => void;
   isMultiplayer?: boolean;
+  // Multiplayer: each device only reveals the role of its own player
+  localPlayerId?: number;
+  // Spectators have no role, they watch players check theirs
+  isSpectator?: boolean;
+  acknowledgedPlayerIds?: number[];
+  // Imposters are shown who the other imposters are
+  impostersKnowEachOther?: boolean;
+  // Imposters are shown the category of the word as a hint
+  secretCategory?: string;
+  categoryHint?: boolean;
 }
 
 const WordReveal: React.FC<WordRevealProps> = ({ 
   players, 
   secretWord, 
   onComplete,
-  isMultiplayer = false
+  isMultiplayer = false,
+  localPlayerId,
+  isSpectator = false,
+  acknowledgedPlayerIds = [],
+  impostersKnowEachOther = false,
+  secretCategory = '',
+  categoryHint = false
 }) => {
-  const [currentPlayerIndex, setCurrentPlayerIndex] = useState<number>(0);
+  const [localPlayerIndex, setCurrentPlayerIndex] = useState<number>(0);
   const [isRevealed, setIsRevealed] = useState<boolean>(false);
   const [showPass, setShowPass] = useState<boolean>(false);
 
+  const currentPlayerIndex = isMultiplayer
+    ? players.findIndex(p => p.id === localPlayerId)
+    : localPlayerIndex;
   const currentPlayer = players[currentPlayerIndex];
   const isImposter = currentPlayer?.isImposter;
+  const fellowImposters = getFellowImposters(players, currentPlayer, impostersKnowEachOther);
+  const hasAcknowledged = isMultiplayer && acknowledgedPlayerIds.includes(localPlayerId);
 
   const handleReveal = () => {
     setIsRevealed(true);
   };
 
+  // Nobody to pass to in multiplayer; tell the host we have seen our role
   const handleContinue = () => {
     setIsRevealed(false);
-    setShowPass(true);
+    if (!isMultiplayer) {
+      setShowPass(true);
+    } else if (!hasAcknowledged) {
+      onComplete();
+    }
   };
 
   const handlePass = () => {
@@ -45,10 +72,7 @@ const WordReveal: React.FC<WordRevealProps> = ({
 
   useEffect(() => {
     if (isRevealed) {
-      const timer = setTimeout(() => {
-        setIsRevealed(false);
-        setShowPass(true);
-      }, 5000);
+      const timer = setTimeout(handleContinue, 5000);
       return () => clearTimeout(timer);
     }
   }, [isRevealed]);
@@ -84,7 +108,9 @@ const WordReveal: React.FC<WordRevealProps> = ({
           <div className={`h-12 w-12 rounded-full mx-auto flex items-center justify-center text-white font-bold player-color-${currentPlayer?.colorIndex}`}>
             {currentPlayerIndex + 1}
           </div>
-          <span className="mt-2 block">{currentPlayer?.name}'s Turn</span>
+          <span className="mt-2 block">
+            {isMultiplayer ? `${currentPlayer?.name}, your role` : `${currentPlayer?.name}'s Turn`}
+          </span>
         </CardTitle>
       </CardHeader>
       <CardContent className="text-center">
@@ -108,6 +134,16 @@ const WordReveal: React.FC<WordRevealProps> = ({
               <div className="space-y-2">
                 <p className="text-xl font-bold text-destructive">You are the Kaun Artist! 🥷</p>
                 <p>Try to blend in without knowing the word</p>
+                {categoryHint && secretCategory && (
+                  <p className="text-sm">
+                    Hint: the word is in <span className="font-bold">{secretCategory}</span>
+                  </p>
+                )}
+                {fellowImposters.length > 0 && (
+                  <p className="text-sm">
+                    Also in on it: {fellowImposters.map(p => p.name).join(', ')}
+                  </p>
+                )}
               </div>
             ) : (
               <div className="space-y-2">
@@ -136,9 +172,48 @@ const WordReveal: React.FC<WordRevealProps> = ({
     </Card>
   );
 
+  const renderWaitingScreen = () => (
+    <Card className="w-full max-w-md animate-fade-in">
+      <CardHeader>
+        <CardTitle className="text-center">
+          {isSpectator ? 'Players are checking their roles' : 'Waiting for everyone'}
+        </CardTitle>
+      </CardHeader>
+      <CardContent className="space-y-2">
+        {players.map(player => (
+          <div key={player.id} className="flex items-center justify-between rounded-md border p-2">
+            <div className="flex items-center space-x-3">
+              <div className={`h-6 w-6 rounded-full player-color-${player.colorIndex}`} />
+              <span>{player.name}</span>
+            </div>
+            {acknowledgedPlayerIds.includes(player.id) ? (
+              <Check className="h-4 w-4 text-green-500" />
+            ) : (
+              <Loader2 className="h-4 w-4 animate-spin text-muted-foreground" />
+            )}
+          </div>
+        ))}
+      </CardContent>
+      {!isSpectator && (
+        <CardFooter className="justify-center">
+          <Button onClick={handleReveal} variant="outline">
+            <Eye className="mr-2 h-4 w-4" /> Show my role again
+          </Button>
+        </CardFooter>
+      )}
+    </Card>
+  );
+
+  const renderScreen = () => {
+    if (isMultiplayer) {
+      return isSpectator || (hasAcknowledged && !isRevealed) ? renderWaitingScreen() : renderRevealScreen();
+    }
+    return showPass ? renderPassScreen() : renderRevealScreen();
+  };
+
   return (
     <div className="flex items-center justify-center min-h-screen p-4">
-      {showPass ? renderPassScreen() : renderRevealScreen()}
+      {renderScreen()}
     </div>
   );
 };
@@ -1,30 +1,139 @@
 
-import React, { createContext, useContext, useState, useEffect } from 'react';
+import React, { createContext, useCallback, useContext, useState, useEffect, useRef } from 'react';
 import { useToast } from "@/hooks/use-toast";
-import mockSocketServer from '@/lib/socket-mock';
+import { io } from 'socket.io-client';
+import mockSocketServer, { ForceDisconnectOptions, MockAck, ROOM_NOTICES } from '@/lib/socket-mock';
+import {
+  CreateRoomRequest,
+  createRoomRequestSchema,
+  emitEvent,
+  EventSocket,
+  isProtocolEvent,
+  isRoomEvent,
+  joinRoomRequestSchema,
+  JoinRoomRequest,
+  JoinRoomResult,
+  onEvent,
+  parsePayload,
+  RoomListing,
+  roomListSchema,
+  SERVER_EVENTS,
+  SessionInfo
+} from '@/lib/protocol';
+import { getSession, saveSession } from '@/lib/session';
+import { redactGameState, redactGameStateDelta } from '@/lib/secrets';
+import { isChatOpen } from '@/lib/discussion';
+
+// When set, connect to the standalone game server in /server instead of
+// the in-browser mock (e.g. VITE_SOCKET_SERVER_URL=http://192.168.1.10:3001)
+const SOCKET_SERVER_URL = import.meta.env.VITE_SOCKET_SERVER_URL;
+
+const JOIN_FAILURE_MESSAGES: Record<Exclude<JoinRoomResult, 'joined'>, { title: string; description: string }> = {
+  'not-found': {
+    title: "Room not found",
+    description: "The room you're trying to join doesn't exist"
+  },
+  expired: {
+    title: "Room expired",
+    description: "This room was closed after it went unused for too long"
+  },
+  full: {
+    title: "Room is full",
+    description: "This room has no free seats left"
+  },
+  locked: {
+    title: "Room is locked",
+    description: "The host has locked this room to new players"
+  },
+  banned: {
+    title: "Can't join room",
+    description: "The host has banned you from this room"
+  },
+  'passphrase-required': {
+    title: "Passphrase needed",
+    description: "This room is private, enter its passphrase to join"
+  },
+  'wrong-passphrase': {
+    title: "Wrong passphrase",
+    description: "That passphrase doesn't match this room's"
+  }
+};
+
+// What the app needs from a socket, met by both socket.io and the mock.
+// Send and listen through `emitEvent`/`onEvent` from lib/protocol.
+export interface GameSocket extends EventSocket {
+  id?: string;
+  connected: boolean;
+  disconnect(): unknown;
+}
+
+type MockListener = (...args: unknown[]) => void;
+
+// socket.io passes the acknowledgement callback of a request last
+const getAck = (args: unknown[]): MockAck | undefined => {
+  const callback = args[args.length - 1];
+  return typeof callback === 'function' ? callback as MockAck : undefined;
+};
 
 // Mock socket implementation for local development
 const createMockSocket = () => {
-  const listeners = new Map();
-  const emitters = new Map();
-  let id = `user-${Math.random().toString(36).substring(2, 9)}`;
+  const listeners = new Map<string, MockListener[]>();
+  const emitters = new Map<string, unknown[][]>();
+  const offlineQueue: Array<[string, unknown[]]> = [];
+  let pendingDisconnect: ForceDisconnectOptions | null = null;
+  
+  // The mock has no server to hand out ids, so the session keeps its own
+  const session = getSession();
+  const id = session.clientId || `user-${Math.random().toString(36).substring(2, 9)}`;
+  saveSession({ ...session, clientId: id });
+  
+  // Send the stored game state to this client, along with the clock of a
+  // timed turn, or ask the host for it when the server does not have an
+  // up-to-date copy
+  const sendGameState = () => {
+    mockSocketServer.loadPersistentRooms();
+    
+    const roomId = mockSocketServer.getRoomForClient(id);
+    if (!roomId) return;
+    
+    const state = mockSocketServer.getGameState(roomId);
+    const host = mockSocketServer.getHost(roomId);
+    if (state) {
+      mockSocketServer.sendToClient(id, SERVER_EVENTS.gameStateSnapshot, { roomId, state: redactGameState(state, id) });
+      const turnDeadline = mockSocketServer.getTurnDeadline(roomId);
+      if (turnDeadline) {
+        mockSocketServer.sendToClient(id, SERVER_EVENTS.turnTimer, { roomId, ...turnDeadline, serverTime: Date.now() });
+      }
+    } else if (host && host !== id) {
+      mockSocketServer.sendToClient(host, SERVER_EVENTS.requestGameState, { roomId });
+    }
+  };
+  
+  // Clients only hear about a lock while they are in the room, so anyone
+  // arriving is told whether it is locked
+  const sendRoomLock = () => {
+    const roomId = mockSocketServer.getRoomForClient(id);
+    if (roomId && mockSocketServer.isRoomLocked(roomId)) {
+      mockSocketServer.sendToClient(id, SERVER_EVENTS.roomLocked, { roomId, locked: true });
+    }
+  };
   
   const mockSocket = {
     id,
     connected: true,
     
-    on: (event: string, callback: any) => {
+    on: (event: string, callback: MockListener) => {
       if (!listeners.has(event)) {
         listeners.set(event, []);
       }
-      listeners.get(event).push(callback);
+      listeners.get(event)!.push(callback);
       return mockSocket;
     },
     
-    off: (event: string, callback?: any) => {
+    off: (event: string, callback?: MockListener) => {
       if (!listeners.has(event)) return mockSocket;
       if (callback) {
-        const callbacks = listeners.get(event);
+        const callbacks = listeners.get(event)!;
         const index = callbacks.indexOf(callback);
         if (index !== -1) callbacks.splice(index, 1);
       } else {
@@ -33,59 +142,153 @@ const createMockSocket = () => {
       return mockSocket;
     },
     
-    emit: (event: string, ...args: any[]) => {
+    emit: (event: string, ...args: unknown[]) => {
       console.log(`[MockSocket] Emitting ${event}`, args);
       
-      // Special handling for certain events
-      if (event === 'create-room') {
-        const callback = args[args.length - 1];
-        if (typeof callback === 'function') {
-          // Register the callback with the server and generate a room
-          mockSocketServer.registerCallback(id, 'create-room', callback);
-          const roomId = mockSocketServer.createRoom(id);
-          // Execute the callback with a slight delay to simulate network
-          setTimeout(() => {
-            mockSocketServer.executeCallback(id, 'create-room', roomId);
-          }, 300);
-        }
-      } 
-      else if (event === 'join-room') {
-        const roomId = args[0];
-        const callback = args[args.length - 1];
-        if (typeof callback === 'function') {
-          mockSocketServer.registerCallback(id, 'join-room', callback);
-          console.log(`[MockSocket] Attempting to join room ${roomId} with client ${id}`);
+      // Queue up while offline and send on reconnect, like socket.io does
+      if (!mockSocket.connected) {
+        offlineQueue.push([event, args]);
+        return mockSocket;
+      }
+      
+      // The server side of the event, once it has crossed the network
+      mockSocketServer.transmit(`${event} from ${id}`, () => {
+        // Malformed messages are dropped, like the real server does
+        if (isProtocolEvent(event) && parsePayload(event, args[0]) === null) return;
+        
+        if (event === 'create-room') {
+          const request = createRoomRequestSchema.safeParse(args[0]);
+          const callback = getAck(args);
+          if (callback && request.success) {
+            // Register the callback with the server and generate a room
+            mockSocketServer.registerCallback(id, 'create-room', callback);
+            const roomId = mockSocketServer.createRoom(id, request.data);
+            // The acknowledgement travels back over the simulated network
+            setTimeout(() => {
+              mockSocketServer.executeCallback(id, 'create-room', roomId);
+            }, mockSocketServer.getAckDelay());
+          }
+        } 
+        else if (event === 'join-room') {
+          const request = joinRoomRequestSchema.safeParse(args[0]);
+          const callback = getAck(args);
+          if (callback && request.success) {
+            const { roomId, passphrase, spectate } = request.data;
+            mockSocketServer.registerCallback(id, 'join-room', callback);
+            console.log(`[MockSocket] Attempting to join room ${roomId} with client ${id}`);
+        
+            // Clear any old room data first to prevent stale connections
+            mockSocketServer.leaveRoom(id);
+        
+            // Ensure the server loads the latest rooms from localStorage
+            mockSocketServer.loadPersistentRooms();
+        
+            const result = mockSocketServer.joinRoom(id, roomId, passphrase, spectate);
+            setTimeout(() => {
+              console.log(`[MockSocket] Join room result for ${roomId}: ${result}`);
+              mockSocketServer.executeCallback(id, 'join-room', result);
           
-          // Clear any old room data first to prevent stale connections
+              // Late joiners start from the current game state
+              if (result === 'joined') {
+                sendRoomLock();
+                sendGameState();
+              }
+            }, mockSocketServer.getAckDelay());
+          }
+        }
+        else if (event === SERVER_EVENTS.listRooms) {
+          const callback = getAck(args);
+          if (callback) {
+            mockSocketServer.registerCallback(id, event, callback);
+            const listings = mockSocketServer.listPublicRooms();
+            setTimeout(() => {
+              mockSocketServer.executeCallback(id, event, listings);
+            }, mockSocketServer.getAckDelay());
+          }
+        }
+        else if (event === 'leave-room') {
           mockSocketServer.leaveRoom(id);
-          
-          // Ensure the server loads the latest rooms from localStorage
-          mockSocketServer.loadPersistentRooms();
-          
-          const success = mockSocketServer.joinRoom(id, roomId);
-          setTimeout(() => {
-            console.log(`[MockSocket] Join room result for ${roomId}: ${success ? "success" : "failed"}`);
-            mockSocketServer.executeCallback(id, 'join-room', success);
-          }, 300);
         }
-      }
-      else if (event === 'leave-room') {
-        const roomId = args[0];
-        mockSocketServer.leaveRoom(id);
-      }
-      else if (event.includes('drawing-action')) {
-        // Forward drawing actions to all clients in the room
-        const data = args[0];
-        if (data && data.roomId) {
-          mockSocketServer.broadcastToRoom(data.roomId, 'drawing-update', data);
+        else if (event === SERVER_EVENTS.drawingAction) {
+          // Forward the drawer's actions to the other clients in the room,
+          // and keep them in case the turn runs out. Everyone else only watches.
+          const data = parsePayload(event, args[0]);
+          if (data && mockSocketServer.recordTurnStroke(id, data)) {
+            mockSocketServer.broadcastToRoom(data.roomId, SERVER_EVENTS.drawingUpdate, data, id);
+          }
         }
-      }
+        else if (event === SERVER_EVENTS.gameStateSnapshot) {
+          // Each client only gets what it is allowed to see, like the real server
+          const snapshot = parsePayload(event, args[0]);
+          if (snapshot && mockSocketServer.setGameState(id, snapshot)) {
+            mockSocketServer.sendToOthers(snapshot.roomId, id, event, (clientId) => ({
+              roomId: snapshot.roomId,
+              state: redactGameState(snapshot.state, clientId)
+            }));
+          }
+        }
+        else if (event === SERVER_EVENTS.gameStateDelta) {
+          const delta = parsePayload(event, args[0]);
+          const status = delta ? mockSocketServer.applyGameStateDelta(id, delta) : 'rejected';
+          if (status === 'ok') {
+            const state = mockSocketServer.getGameState(delta.roomId);
+            mockSocketServer.sendToOthers(delta.roomId, id, event, (clientId) => (
+              redactGameStateDelta(delta, state, clientId)
+            ));
+          }
+          if (status === 'resync') {
+            mockSocketServer.sendToClient(id, SERVER_EVENTS.requestGameState, { roomId: delta.roomId });
+          }
+          if (status === 'conflict') {
+            const state = mockSocketServer.getGameState(delta.roomId);
+            mockSocketServer.sendToOthers(delta.roomId, null, SERVER_EVENTS.gameStateSnapshot, (clientId) => ({
+              roomId: delta.roomId,
+              state: redactGameState(state, clientId)
+            }));
+          }
+        }
+        else if (event === SERVER_EVENTS.requestGameState) {
+          sendGameState();
+        }
+        else if (event === SERVER_EVENTS.kickPlayer) {
+          const data = parsePayload(event, args[0]);
+          if (data) mockSocketServer.kickClient(id, data.roomId, data.clientId, data.ban);
+        }
+        else if (event === SERVER_EVENTS.lockRoom) {
+          const data = parsePayload(event, args[0]);
+          if (data) mockSocketServer.setRoomLocked(id, data.roomId, data.locked);
+        }
+        else if (event === SERVER_EVENTS.transferHost) {
+          // The new host gets the full game state, everyone else the state
+          // under its new host
+          const data = parsePayload(event, args[0]);
+          const state = data && mockSocketServer.transferHost(id, data.roomId, data.clientId)
+            ? mockSocketServer.getGameState(data.roomId)
+            : undefined;
+          if (state) {
+            mockSocketServer.sendToOthers(data.roomId, null, SERVER_EVENTS.gameStateSnapshot, (clientId) => ({
+              roomId: data.roomId,
+              state: redactGameState(state, clientId)
+            }));
+          }
+        }
+        else if (isRoomEvent(event)) {
+          // Relay player actions stamped with the sender, like the real server
+          // does. Spectators have no player to act for, and chat is closed
+          // outside the discussion.
+          const data = parsePayload(event, args[0]);
+          const isChatClosed = event === 'player-chat' && !isChatOpen(mockSocketServer.getGameState(data?.roomId || ''));
+          if (data && !mockSocketServer.isSpectator(id) && !isChatClosed) {
+            mockSocketServer.broadcastToRoom(data.roomId, event, { ...data, senderId: id }, id);
+          }
+        }
+      });
       
       // Save emitter for later use
       if (!emitters.has(event)) {
         emitters.set(event, []);
       }
-      emitters.get(event).push(args);
+      emitters.get(event)!.push(args);
       
       return mockSocket;
     },
@@ -94,15 +297,15 @@ const createMockSocket = () => {
     disconnect: () => {
       console.log(`[MockSocket] Disconnecting`);
       const disconnectCallbacks = listeners.get('disconnect') || [];
-      disconnectCallbacks.forEach((callback: any) => callback());
+      disconnectCallbacks.forEach(callback => callback());
       return mockSocket;
     },
     
     // Simulate receiving an event
-    receive: (event: string, ...args: any[]) => {
+    receive: (event: string, ...args: unknown[]) => {
       console.log(`[MockSocket] Receiving ${event}`, args);
       const callbacks = listeners.get(event) || [];
-      callbacks.forEach((callback: any) => callback(...args));
+      callbacks.forEach(callback => callback(...args));
       return mockSocket;
     },
     
@@ -110,42 +313,141 @@ const createMockSocket = () => {
     getId: () => id
   };
   
-  // Simulate connect event (already connected in mock)
-  setTimeout(() => {
+  // Everything the server sends crosses the simulated network, and is lost
+  // while we are offline
+  const deliver = (event: string, data: unknown) => {
+    if (!mockSocket.connected) return;
+    
+    mockSocketServer.transmit(`${event} to ${id}`, () => {
+      if (!mockSocket.connected) return;
+      
+      if (pendingDisconnect && pendingDisconnect.afterEvent === event) {
+        goOffline(pendingDisconnect.durationMs);
+        return;
+      }
+      mockSocket.receive(event, data);
+    });
+  };
+  
+  const connect = () => {
+    mockSocket.connected = true;
+    
     const connectCallbacks = listeners.get('connect') || [];
-    connectCallbacks.forEach((callback: any) => callback());
-  }, 100);
+    connectCallbacks.forEach((callback: () => void) => callback());
+    
+    // Reclaim the seat we held before a refresh, if it is still ours
+    const heldRoomId = mockSocketServer.reconnectClient(id) || null;
+    const sessionInfo: SessionInfo = {
+      clientId: id,
+      roomId: heldRoomId,
+      isSpectator: mockSocketServer.isSpectator(id)
+    };
+    mockSocket.receive(SERVER_EVENTS.session, sessionInfo);
+    if (heldRoomId) {
+      sendRoomLock();
+      sendGameState();
+    }
+    
+    for (const [event, args] of offlineQueue.splice(0)) {
+      mockSocket.emit(event, ...args);
+    }
+  };
+  
+  // Simulated connection loss; the server holds our seat like for a real drop
+  const goOffline = (durationMs?: number) => {
+    console.log(`[MockSocket] Connection lost${durationMs !== undefined ? `, back in ${durationMs}ms` : ''}`);
+    pendingDisconnect = null;
+    mockSocket.connected = false;
+    mockSocketServer.disconnectClient(id);
+    
+    const disconnectCallbacks = listeners.get('disconnect') || [];
+    disconnectCallbacks.forEach((callback: () => void) => callback());
+    
+    if (durationMs !== undefined) {
+      setTimeout(connect, durationMs);
+    }
+  };
+  
+  mockSocketServer.on('force-disconnect', ({ clientId, ...options }) => {
+    if (clientId !== id || !mockSocket.connected) return;
+    
+    if (options.afterEvent) {
+      pendingDisconnect = options;
+    } else {
+      setTimeout(() => goOffline(options.durationMs), options.delayMs || 0);
+    }
+  });
+  
+  // Closing or refreshing the tab drops the connection, like a real socket
+  // would; the seat is held so a refresh can reclaim it
+  window.addEventListener('pagehide', () => mockSocketServer.disconnectClient(id));
+  
+  // Simulate connect event (already connected in mock)
+  setTimeout(connect, 100);
   
   // Listen for broadcast events from the room
   mockSocketServer.on('player-joined', (data) => {
     if (data && data.roomId && mockSocketServer.getClientsInRoom(data.roomId).includes(id)) {
-      mockSocket.receive('player-joined', data);
+      deliver('player-joined', data);
     }
   });
   
   mockSocketServer.on('player-left', (data) => {
     if (data && data.roomId && mockSocketServer.getClientsInRoom(data.roomId).includes(id)) {
-      mockSocket.receive('player-left', data);
+      deliver('player-left', data);
     }
   });
   
-  // Listen for drawing updates
-  mockSocketServer.on('room:*:drawing-update', (data) => {
-    const roomId = mockSocketServer.getRoomForClient(id);
-    if (roomId && data && data.roomId === roomId) {
-      mockSocket.receive('drawing-update', data);
+  for (const event of [SERVER_EVENTS.playerDisconnected, SERVER_EVENTS.playerReconnected]) {
+    mockSocketServer.on(event, (data) => {
+      if (data && data.clientId !== id && mockSocketServer.getClientsInRoom(data.roomId).includes(id)) {
+        deliver(event, data);
+      }
+    });
+  }
+  
+  for (const event of ROOM_NOTICES) {
+    mockSocketServer.on(event, ({ clients, ...data }) => {
+      if (clients.includes(id)) {
+        deliver(event, data);
+      }
+    });
+  }
+  
+  // Listen for events addressed to this client only
+  mockSocketServer.on('client-message', ({ clientId, event, data }) => {
+    if (clientId === id) {
+      deliver(event, data);
+    }
+  });
+  
+  // Listen for events broadcast to our room (drawing updates, game events)
+  mockSocketServer.on('room-broadcast', ({ roomId, event, data, senderId }) => {
+    if (senderId === id) return;
+    if (roomId && mockSocketServer.getRoomForClient(id) === roomId) {
+      deliver(event, data);
     }
   });
   
   return mockSocket;
 };
 
+export type JoinOptions = Omit<JoinRoomRequest, 'roomId'>;
+
 interface SocketContextType {
-  socket: any; // Changed from Socket | null to any to accommodate mock socket
+  socket: GameSocket | null;
+  // Stable id the server knows this client by, kept across reconnects
+  clientId: string | null;
   isConnected: boolean;
   roomId: string | null;
-  createRoom: () => Promise<string>;
-  joinRoom: (roomId: string) => Promise<boolean>;
+  // Whether the host has locked the current room to new players
+  isRoomLocked: boolean;
+  // Whether we are only watching the current room
+  isSpectator: boolean;
+  createRoom: (request: CreateRoomRequest) => Promise<string>;
+  joinRoom: (roomId: string, options?: JoinOptions) => Promise<JoinRoomResult>;
+  // Public rooms open to new players
+  listRooms: () => Promise<RoomListing[]>;
   leaveRoom: () => void;
   isConnecting: boolean;
   debugResetRooms: () => void; // Added for debugging purposes
@@ -153,10 +455,14 @@ interface SocketContextType {
 
 export const SocketContext = createContext<SocketContextType>({
   socket: null,
+  clientId: null,
   isConnected: false,
   roomId: null,
+  isRoomLocked: false,
+  isSpectator: false,
   createRoom: async () => '',
-  joinRoom: async () => false,
+  joinRoom: async () => 'not-found',
+  listRooms: async () => [],
   leaveRoom: () => {},
   isConnecting: false,
   debugResetRooms: () => {}
@@ -165,21 +471,34 @@ export const SocketContext = createContext<SocketContextType>({
 export const useSocket = () => useContext(SocketContext);
 
 export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ children }) => {
-  const [socket, setSocket] = useState<any>(null);
+  const [socket, setSocket] = useState<GameSocket | null>(null);
+  const [clientId, setClientId] = useState<string | null>(null);
   const [isConnected, setIsConnected] = useState(false);
   const [roomId, setRoomId] = useState<string | null>(null);
+  // Room the host has locked to new players, if it is ours
+  const [lockedRoomId, setLockedRoomId] = useState<string | null>(null);
+  const [isSpectator, setIsSpectator] = useState(false);
   const [isConnecting, setIsConnecting] = useState(false);
+  const roomIdRef = useRef<string | null>(null);
   const { toast } = useToast();
   
+  const clientIdRef = useRef<string | null>(null);
+  
+  useEffect(() => {
+    roomIdRef.current = roomId;
+  }, [roomId]);
+  
   // Initialize socket connection
   useEffect(() => {
     console.log("[SocketContext] Initializing socket");
     
-    // Create mock socket for local development
-    const socketInstance = createMockSocket();
+    // Use the real game server when configured, otherwise the local mock
+    const socketInstance: GameSocket = SOCKET_SERVER_URL
+      ? io(SOCKET_SERVER_URL, { transports: ['websocket'], auth: { token: getSession().token } })
+      : createMockSocket();
     
     socketInstance.on('connect', () => {
-      console.log('[SocketContext] Socket connected with ID:', socketInstance.getId());
+      console.log('[SocketContext] Socket connected with ID:', socketInstance.id);
       setIsConnected(true);
       setIsConnecting(false);
       toast({
@@ -188,13 +507,72 @@ export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       });
     });
 
+    // The server tells us who we are, and whether we still have a seat
+    onEvent(socketInstance, SERVER_EVENTS.session, (session: SessionInfo) => {
+      console.log('[SocketContext] Session:', session);
+      clientIdRef.current = session.clientId;
+      setClientId(session.clientId);
+      saveSession({ ...getSession(), clientId: session.clientId });
+      
+      if (session.roomId && session.roomId !== roomIdRef.current) {
+        toast({
+          title: "Rejoined room",
+          description: `Welcome back to room ${session.roomId}`,
+        });
+      } else if (!session.roomId && roomIdRef.current) {
+        toast({
+          title: "Seat lost",
+          description: "You were away too long and have left the room",
+          variant: "destructive"
+        });
+      }
+      setRoomId(session.roomId);
+      setIsSpectator(!!session.isSpectator);
+    });
+
+    onEvent(socketInstance, SERVER_EVENTS.roomExpired, (data) => {
+      if (data.roomId !== roomIdRef.current) return;
+      
+      setRoomId(null);
+      toast({
+        title: "Room closed",
+        description: data.reason === 'abandoned'
+          ? `Everyone playing in room ${data.roomId} has left`
+          : data.reason === 'idle'
+            ? `Room ${data.roomId} was closed after it went unused for too long`
+            : `Room ${data.roomId} has been open for too long and was closed`,
+        variant: "destructive"
+      });
+    });
+
+    // Sent whenever we arrive in a locked room, possibly before the join
+    // itself has been handled
+    onEvent(socketInstance, SERVER_EVENTS.roomLocked, (data) => {
+      setLockedRoomId(current => (
+        data.locked ? data.roomId : current === data.roomId ? null : current
+      ));
+    });
+
+    onEvent(socketInstance, SERVER_EVENTS.playerKicked, (data) => {
+      if (data.roomId !== roomIdRef.current || data.clientId !== clientIdRef.current) return;
+      
+      setRoomId(null);
+      toast({
+        title: data.banned ? "Banned from room" : "Removed from room",
+        description: data.banned
+          ? "The host removed you from the room and you can't rejoin it"
+          : "The host removed you from the room",
+        variant: "destructive"
+      });
+    });
+
+    // Keep the room: the server holds our seat while we reconnect
     socketInstance.on('disconnect', () => {
       console.log('[SocketContext] Socket disconnected');
       setIsConnected(false);
-      setRoomId(null);
       toast({
         title: "Disconnected",
-        description: "Lost connection to game server",
+        description: "Lost connection to game server, trying to reconnect...",
         variant: "destructive"
       });
     });
@@ -209,7 +587,7 @@ export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   }, [toast]);
   
   // Room creation function
-  const createRoom = async (): Promise<string> => {
+  const createRoom = async (request: CreateRoomRequest): Promise<string> => {
     if (!socket) throw new Error('Socket not connected');
     setIsConnecting(true);
     
@@ -226,11 +604,12 @@ export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       }, 5000);
       
       try {
-        socket.emit('create-room', (newRoomId: string) => {
+        socket.emit(SERVER_EVENTS.createRoom, request, (newRoomId: string) => {
           clearTimeout(timeout);
           setIsConnecting(false);
           console.log('[SocketContext] Room created:', newRoomId);
           setRoomId(newRoomId);
+          setIsSpectator(false);
           toast({
             title: "Room created",
             description: `Successfully created room ${newRoomId}`,
@@ -252,7 +631,7 @@ export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   };
 
   // Room joining function
-  const joinRoom = async (roomToJoin: string): Promise<boolean> => {
+  const joinRoom = async (roomToJoin: string, options: JoinOptions = {}): Promise<JoinRoomResult> => {
     if (!socket) throw new Error('Socket not connected');
     setIsConnecting(true);
     
@@ -269,26 +648,7 @@ export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ childr
         description: "Please enter a valid 6-character room code",
         variant: "destructive"
       });
-      return Promise.resolve(false);
-    }
-    
-    console.log(`[SocketContext] Checking if room ${roomToJoin} exists...`);
-    
-    // Force reload room data from localStorage
-    mockSocketServer.loadPersistentRooms();
-    
-    // Pre-check if room exists to provide better feedback
-    const roomExists = mockSocketServer.roomExists(roomToJoin);
-    console.log(`[SocketContext] Room ${roomToJoin} exists: ${roomExists}`);
-    
-    if (!roomExists) {
-      setIsConnecting(false);
-      toast({
-        title: "Room not found",
-        description: "The room you're trying to join doesn't exist",
-        variant: "destructive"
-      });
-      return Promise.resolve(false);
+      return Promise.resolve('not-found');
     }
     
     return new Promise((resolve, reject) => {
@@ -304,27 +664,31 @@ export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ childr
       }, 5000);
       
       try {
-        socket.emit('join-room', roomToJoin, (success: boolean) => {
+        const request: JoinRoomRequest = { roomId: roomToJoin, ...options };
+        socket.emit(SERVER_EVENTS.joinRoom, request, (result: JoinRoomResult) => {
           clearTimeout(timeout);
           setIsConnecting(false);
           
-          if (success) {
+          if (result === 'joined') {
             console.log('[SocketContext] Joined room:', roomToJoin);
             setRoomId(roomToJoin);
+            setIsSpectator(!!options.spectate);
             toast({
-              title: "Joined room",
-              description: `Successfully joined room ${roomToJoin}`,
+              title: options.spectate ? "Watching room" : "Joined room",
+              description: options.spectate
+                ? `You are spectating room ${roomToJoin}`
+                : `Successfully joined room ${roomToJoin}`,
             });
-          } else {
-            console.log('[SocketContext] Failed to join room:', roomToJoin);
+          } else if (result !== 'passphrase-required') {
+            // Being asked for a passphrase is left to the join form
+            console.log(`[SocketContext] Failed to join room ${roomToJoin}: ${result}`);
             toast({
-              title: "Joining room failed",
-              description: "Room might be full or has expired",
+              ...JOIN_FAILURE_MESSAGES[result],
               variant: "destructive"
             });
           }
           
-          resolve(success);
+          resolve(result);
         });
       } catch (error) {
         clearTimeout(timeout);
@@ -340,10 +704,30 @@ export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ childr
     });
   };
 
+  // Rooms for the room browser. The list is only informational, so a slow
+  // or malformed answer just shows no rooms. Stable, so the room browser
+  // can refresh from an effect.
+  const listRooms = useCallback(async (): Promise<RoomListing[]> => {
+    if (!socket) return [];
+    
+    return new Promise((resolve) => {
+      const timeout = setTimeout(() => resolve([]), 5000);
+      
+      socket.emit(SERVER_EVENTS.listRooms, (listings: unknown) => {
+        clearTimeout(timeout);
+        const parsed = roomListSchema.safeParse(listings);
+        if (!parsed.success) {
+          console.warn('[SocketContext] Ignored malformed room list:', parsed.error.message);
+        }
+        resolve(parsed.success ? parsed.data : []);
+      });
+    });
+  }, [socket]);
+
   // Leave room function
   const leaveRoom = () => {
     if (socket && roomId) {
-      socket.emit('leave-room', roomId);
+      emitEvent(socket, SERVER_EVENTS.leaveRoom, roomId);
       setRoomId(null);
       toast({
         title: "Left room",
@@ -364,10 +748,14 @@ export const SocketProvider: React.FC<{ children: React.ReactNode }> = ({ childr
   
   const value = {
     socket,
+    clientId,
     isConnected,
     roomId,
+    isRoomLocked: !!roomId && lockedRoomId === roomId,
+    isSpectator: !!roomId && isSpectator,
     createRoom,
     joinRoom,
+    listRooms,
     leaveRoom,
     isConnecting,
     debugResetRooms
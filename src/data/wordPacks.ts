@@ -0,0 +1,137 @@
+import { WordPack } from '../types/game';
+
+// Built-in word packs the secret word is drawn from, grouped by category
+export const WORD_PACKS: WordPack[] = [
+  {
+    id: 'everyday',
+    name: 'Everyday',
+    description: 'Animals, food and things everyone can draw',
+    difficulty: 'easy',
+    locale: 'en',
+    tags: ['family', 'classic'],
+    categories: [
+      {
+        name: 'Animals',
+        words: [
+          "Cat", "Dog", "Bird", "Fish", "Monkey",
+          "Lion", "Tiger", "Elephant", "Frog", "Butterfly",
+          "Tortoise", "Deer", "Giraffe", "Penguin", "Kangaroo",
+          "Panda", "Dolphin", "Owl", "Koala", "Camel"
+        ]
+      },
+      {
+        name: 'Food',
+        words: [
+          "Pizza", "Cake", "Donut", "Ice Cream", "Popcorn",
+          "Lollipop", "Pancake", "Coffee", "Coconut"
+        ]
+      },
+      {
+        name: 'Things',
+        words: [
+          "House", "Car", "Chair", "Table", "Phone",
+          "Computer", "Book", "Clock", "Guitar", "Bicycle",
+          "Train", "Airplane", "Umbrella", "Camera", "Key",
+          "Kite", "Backpack", "Helmet", "Crown", "Mask"
+        ]
+      },
+      {
+        name: 'Nature',
+        words: [
+          "Sun", "Moon", "Star", "Beach", "Mountain",
+          "River", "Tree", "Flower", "Rainbow", "Cloud",
+          "Lightning", "Fire", "Water", "Island", "Desert",
+          "Waterfall", "Volcano"
+        ]
+      }
+    ]
+  },
+  {
+    id: 'desi',
+    name: 'Desi',
+    description: 'Food, festivals and music from India',
+    difficulty: 'medium',
+    locale: 'en-IN',
+    tags: ['india', 'culture'],
+    categories: [
+      {
+        name: 'Food',
+        words: [
+          "Mango", "Curry", "Samosa", "Dosa", "Naan",
+          "Biryani", "Gulab Jamun", "Chapati", "Jalebi", "Paneer",
+          "Chutney", "Chai", "Mango Lassi", "Spice"
+        ]
+      },
+      {
+        name: 'Festivals & Culture',
+        words: [
+          "Diwali", "Holi", "Rangoli", "Bindi", "Bangle",
+          "Sari", "Yoga", "Yoga Mat", "Incense", "Bollywood",
+          "Cricket", "Lotus"
+        ]
+      },
+      {
+        name: 'Music',
+        words: ["Sitar", "Tabla", "Dhol", "Veena", "Flute", "Conch Shell"]
+      },
+      {
+        name: 'Places & Things',
+        words: [
+          "Taj Mahal", "Temple", "River Ganges", "Banyan Tree", "Rickshaw",
+          "Tandoor", "Monsoon", "Bamboo", "Jasmine"
+        ]
+      },
+      {
+        name: 'Wildlife',
+        words: ["Peacock", "Cobra", "Kingfisher", "Scorpion"]
+      }
+    ]
+  },
+  {
+    id: 'adventure',
+    name: 'Adventure',
+    description: 'Fantasy, far-off places and explorer gear',
+    difficulty: 'hard',
+    locale: 'en',
+    tags: ['fantasy', 'travel'],
+    categories: [
+      {
+        name: 'Fantasy',
+        words: [
+          "Robot", "Ghost", "Alien", "Rocket", "Castle",
+          "Dragon", "Unicorn", "Wizard", "Pirate", "Dinosaur"
+        ]
+      },
+      {
+        name: 'Places',
+        words: [
+          "Jungle", "Iceberg", "Cave", "Canyon", "Oasis",
+          "Pyramid", "Lighthouse", "Windmill", "Bridge", "Tower",
+          "Igloo"
+        ]
+      },
+      {
+        name: 'Creatures',
+        words: [
+          "Octopus", "Seahorse", "Narwhal", "Flamingo", "Hedgehog",
+          "Sloth", "Polar Bear"
+        ]
+      },
+      {
+        name: 'Gear',
+        words: [
+          "Spaceship", "Submarine", "Hot Air Balloon", "Skateboard", "Canoe",
+          "Paintbrush", "Telescope", "Microphone", "Compass", "Binoculars",
+          "Magnifying Glass", "Hourglass", "Lantern", "Treasure Chest", "Anchor",
+          "Feather", "Bubble"
+        ]
+      },
+      {
+        name: 'Sports',
+        words: ["Football", "Tennis", "Basketball", "Chess", "Karate"]
+      }
+    ]
+  }
+];
+
+export const DEFAULT_WORD_PACK_ID = 'everyday';
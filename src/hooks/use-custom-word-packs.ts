@@ -0,0 +1,27 @@
+import { useCallback, useEffect, useState } from 'react';
+import { WordPack } from '@/types/game';
+import { loadCustomWordPacks, saveCustomWordPacks } from '@/lib/custom-word-packs';
+
+// The custom word packs saved in this browser
+export function useCustomWordPacks() {
+  const [packs, setPacks] = useState<WordPack[]>(loadCustomWordPacks);
+
+  useEffect(() => {
+    saveCustomWordPacks(packs);
+  }, [packs]);
+
+  // Adds the pack, or replaces the saved pack with its id
+  const savePack = useCallback((pack: WordPack) => {
+    setPacks(current => (
+      current.some(p => p.id === pack.id)
+        ? current.map(p => (p.id === pack.id ? pack : p))
+        : [...current, pack]
+    ));
+  }, []);
+
+  const deletePack = useCallback((id: string) => {
+    setPacks(current => current.filter(p => p.id !== id));
+  }, []);
+
+  return { packs, savePack, deletePack };
+}
@@ -0,0 +1,176 @@
+import { useState, useEffect, useRef, useCallback } from 'react';
+import { GameRoom, GameRoomPatch, GameStateDelta, GameStateSnapshot } from '@/types/game';
+import { applyDelta, applyPatch, createGameRoom } from '@/lib/game-state';
+import { emitEvent, onEvent, SERVER_EVENTS } from '@/lib/protocol';
+import { useSocket } from '@/contexts/SocketContext';
+
+export type GameStateUpdate = GameRoomPatch | ((current: GameRoom) => GameRoomPatch | null);
+
+export interface GameStateControls {
+  state: GameRoom;
+  // True when this device decides what happens next (local games, or the host)
+  isAuthority: boolean;
+  update: (change: GameStateUpdate) => void;
+  reset: (state: GameRoom) => void;
+}
+
+// Holds the single game state object. On the authority, `update` applies a
+// change and broadcasts it as a versioned delta. Other clients only apply
+// snapshots and deltas from the host, and ask for a fresh snapshot whenever
+// they notice they have missed something. The server makes a few changes of
+// its own (ending a turn that ran out of time), which the host applies too.
+export function useGameState(): GameStateControls {
+  const { socket, clientId, roomId } = useSocket();
+  const [state, setState] = useState<GameRoom>(() => createGameRoom('', ''));
+  const stateRef = useRef<GameRoom>(state);
+  const pendingDeltas = useRef<Map<number, GameStateDelta>>(new Map());
+
+  const isMultiplayerState = (current: GameRoom) => !!current.gameConfig?.isMultiplayer;
+  const isAuthorityFor = useCallback((current: GameRoom) => (
+    !isMultiplayerState(current) || (!!clientId && current.hostId === clientId)
+  ), [clientId]);
+  const isHosting = useCallback((current: GameRoom) => (
+    isMultiplayerState(current) && isAuthorityFor(current)
+  ), [isAuthorityFor]);
+
+  const commit = (next: GameRoom) => {
+    stateRef.current = next;
+    setState(next);
+  };
+
+  const update = useCallback((change: GameStateUpdate) => {
+    const current = stateRef.current;
+    if (!isAuthorityFor(current)) {
+      console.warn('[GameState] Ignoring update from a client that is not the host');
+      return;
+    }
+
+    const patch = typeof change === 'function' ? change(current) : change;
+    if (!patch) return;
+
+    const next = applyPatch(current, patch);
+    commit(next);
+
+    if (isMultiplayerState(next) && socket) {
+      const delta: GameStateDelta = { roomId: next.id, version: next.version, patch };
+      emitEvent(socket, SERVER_EVENTS.gameStateDelta, delta);
+    }
+  }, [socket, isAuthorityFor]);
+
+  const reset = useCallback((newState: GameRoom) => {
+    // Keep versions increasing so other clients never see the new game as stale
+    const next = { ...newState, version: Math.max(newState.version, stateRef.current.version + 1) };
+    pendingDeltas.current.clear();
+    commit(next);
+
+    if (isHosting(next) && socket) {
+      const snapshot: GameStateSnapshot = { roomId: next.id, state: next };
+      emitEvent(socket, SERVER_EVENTS.gameStateSnapshot, snapshot);
+    }
+  }, [socket, isHosting]);
+
+  useEffect(() => {
+    if (!socket || !roomId) return;
+
+    const requestSnapshot = () => {
+      if (isHosting(stateRef.current)) return;
+      emitEvent(socket, SERVER_EVENTS.requestGameState, { roomId });
+    };
+
+    // Apply any buffered deltas that now follow on from our version
+    const drainPending = () => {
+      let current = stateRef.current;
+      let next = pendingDeltas.current.get(current.version + 1);
+      while (next) {
+        pendingDeltas.current.delete(next.version);
+        current = applyDelta(current, next).state;
+        next = pendingDeltas.current.get(current.version + 1);
+      }
+      for (const version of pendingDeltas.current.keys()) {
+        if (version <= current.version) pendingDeltas.current.delete(version);
+      }
+      if (current !== stateRef.current) commit(current);
+    };
+
+    const handleSnapshot = (snapshot: GameStateSnapshot) => {
+      if (snapshot.roomId !== roomId) return;
+      const current = stateRef.current;
+      // The host only takes a snapshot that hands the room to someone else,
+      // or the server's copy after it dropped one of the host's changes
+      if (
+        isHosting(current) &&
+        snapshot.state.hostId === current.hostId &&
+        snapshot.state.version <= current.version
+      ) {
+        return;
+      }
+      if (current.id === snapshot.state.id && snapshot.state.version < current.version) return;
+
+      console.log(`[GameState] Applying snapshot v${snapshot.state.version}`);
+      commit(snapshot.state);
+      drainPending();
+    };
+
+    const handleDelta = (delta: GameStateDelta) => {
+      if (delta.roomId !== roomId) return;
+
+      // The host's own deltas never come back to it, so this one is from the
+      // server. One that does not follow on was made while one of ours was on
+      // its way, and the server sends its copy once ours arrives.
+      if (isHosting(stateRef.current)) {
+        const result = applyDelta(stateRef.current, delta);
+        if (result.status === 'applied') commit(result.state);
+        return;
+      }
+
+      // A delta for a game we have no state for yet counts as a gap
+      const result = stateRef.current.id === delta.roomId
+        ? applyDelta(stateRef.current, delta)
+        : { state: stateRef.current, status: 'gap' as const };
+      if (result.status === 'applied') {
+        commit(result.state);
+        drainPending();
+      } else if (result.status === 'gap') {
+        console.log(`[GameState] Missed updates before v${delta.version}, resyncing`);
+        pendingDeltas.current.set(delta.version, delta);
+        requestSnapshot();
+      }
+    };
+
+    // The host answers resync requests the server cannot serve itself
+    const handleSnapshotRequest = () => {
+      const current = stateRef.current;
+      if (!isHosting(current)) return;
+
+      emitEvent(socket, SERVER_EVENTS.gameStateSnapshot, { roomId: current.id, state: current });
+    };
+
+    const handleVisibilityChange = () => {
+      if (document.visibilityState === 'visible') requestSnapshot();
+    };
+
+    const unsubscribers = [
+      onEvent(socket, SERVER_EVENTS.gameStateSnapshot, handleSnapshot),
+      onEvent(socket, SERVER_EVENTS.gameStateDelta, handleDelta),
+      onEvent(socket, SERVER_EVENTS.requestGameState, handleSnapshotRequest)
+    ];
+    socket.on('connect', requestSnapshot);
+    document.addEventListener('visibilitychange', handleVisibilityChange);
+
+    // We may have missed the snapshot sent when we joined
+    requestSnapshot();
+
+    return () => {
+      unsubscribers.forEach(unsubscribe => unsubscribe());
+      socket.off('connect', requestSnapshot);
+      document.removeEventListener('visibilitychange', handleVisibilityChange);
+    };
+  }, [socket, roomId, isHosting]);
+
+  return {
+    state,
+    isAuthority: isAuthorityFor(state),
+    update,
+    reset
+  };
+}
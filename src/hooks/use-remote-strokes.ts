@@ -0,0 +1,241 @@
+import { useEffect, useRef, useCallback, RefObject } from 'react';
+import { Stroke } from '@/types/game';
+import { useSocket } from '@/contexts/SocketContext';
+import { CanvasSize, FLUSH_INTERVAL_MS, Point, decodePoints, toCanvasStroke } from '@/lib/drawing-stream';
+import { onEvent, RoomDrawingAction, SERVER_EVENTS } from '@/lib/protocol';
+
+interface RemoteStroke {
+  // On the grid, like the strokes in the game state
+  stroke: Stroke;
+  // Received points that have not been drawn yet
+  queue: Point[];
+  // Batches that arrived ahead of `nextSeq`, by sequence number
+  early: Map<number, Point[]>;
+  nextSeq: number;
+  endSeq?: number;
+  // The drawer took the stroke back with this batch
+  removeSeq?: number;
+  isEnded: boolean;
+}
+
+// Strokes remembered after finishing, to ignore batches that arrive late
+const MAX_FINISHED_STROKES = 200;
+
+interface RemoteStrokesOptions {
+  enabled: boolean;
+  canvasRef: RefObject<HTMLCanvasElement>;
+  canvasSize: CanvasSize;
+  // Seat of the player whose turn it is; nobody else may draw
+  drawerId?: number;
+  onStrokeComplete: (stroke: Stroke) => void;
+  // A stroke, finished or not, was undone by its drawer and should come off
+  // the canvas
+  onStrokeRemoved: (strokeId: string) => void;
+}
+
+const midpoint = (a: Point, b: Point): Point => ({ x: (a.x + b.x) / 2, y: (a.y + b.y) / 2 });
+
+// Continue a stroke through the new points with quadratic curves between
+// midpoints, picking up exactly where the previous segment ended. A stroke
+// of a single point is drawn as a dot.
+const drawSmoothSegment = (
+  context: CanvasRenderingContext2D,
+  gridStroke: Stroke,
+  newPoints: Point[],
+  isLast: boolean,
+  size: CanvasSize
+) => {
+  const stroke = toCanvasStroke({ ...gridStroke, points: [...gridStroke.points.slice(-2), ...newPoints] }, size);
+  const points = stroke.points;
+  if (points.length === 0) return;
+
+  context.beginPath();
+  if (points.length === 1 || gridStroke.points.length < 2) {
+    context.moveTo(points[0].x, points[0].y);
+  } else {
+    const start = midpoint(points[0], points[1]);
+    context.moveTo(start.x, start.y);
+  }
+
+  for (let i = 1; i < points.length - 1; i++) {
+    const end = midpoint(points[i], points[i + 1]);
+    context.quadraticCurveTo(points[i].x, points[i].y, end.x, end.y);
+  }
+
+  const last = points[points.length - 1];
+  if (isLast || points.length <= 2) {
+    context.lineTo(last.x, last.y);
+  }
+
+  context.strokeStyle = stroke.color;
+  context.lineWidth = stroke.width;
+  context.lineCap = 'round';
+  context.lineJoin = 'round';
+  context.stroke();
+};
+
+// Plays back strokes other players are drawing right now. Incoming batches
+// are queued and drawn a few points per animation frame, so a batch is
+// spread over about as long as it took to draw instead of appearing at once.
+// Undone strokes are taken off again once every batch before the removal
+// has been applied.
+export function useRemoteStrokes({
+  enabled,
+  canvasRef,
+  canvasSize,
+  drawerId,
+  onStrokeComplete,
+  onStrokeRemoved
+}: RemoteStrokesOptions) {
+  const { socket } = useSocket();
+  const activeStrokes = useRef<Map<string, RemoteStroke>>(new Map());
+  const finishedStrokeIds = useRef<Set<string>>(new Set());
+  const frame = useRef<number | null>(null);
+  const lastFrameAt = useRef<number>(0);
+  const sizeRef = useRef(canvasSize);
+  const onStrokeCompleteRef = useRef(onStrokeComplete);
+  const onStrokeRemovedRef = useRef(onStrokeRemoved);
+
+  useEffect(() => {
+    sizeRef.current = canvasSize;
+    onStrokeCompleteRef.current = onStrokeComplete;
+    onStrokeRemovedRef.current = onStrokeRemoved;
+  });
+
+  const finishStroke = useCallback((strokeId: string) => {
+    activeStrokes.current.delete(strokeId);
+
+    finishedStrokeIds.current.add(strokeId);
+    if (finishedStrokeIds.current.size > MAX_FINISHED_STROKES) {
+      const [oldest] = finishedStrokeIds.current;
+      finishedStrokeIds.current.delete(oldest);
+    }
+  }, []);
+
+  const completeStroke = useCallback((remote: RemoteStroke) => {
+    finishStroke(remote.stroke.id!);
+
+    if (remote.stroke.points.length > 0) {
+      onStrokeCompleteRef.current(remote.stroke);
+    }
+  }, [finishStroke]);
+
+  const play = useCallback((time: number) => {
+    frame.current = null;
+    const context = canvasRef.current?.getContext('2d');
+    const elapsed = lastFrameAt.current ? time - lastFrameAt.current : FLUSH_INTERVAL_MS;
+    lastFrameAt.current = time;
+
+    for (const remote of Array.from(activeStrokes.current.values())) {
+      if (remote.queue.length > 0) {
+        const share = Math.min(1, elapsed / FLUSH_INTERVAL_MS);
+        const count = Math.max(1, Math.ceil(remote.queue.length * share));
+        const next = remote.queue.splice(0, count);
+        const isLast = remote.isEnded && remote.queue.length === 0;
+
+        if (context) drawSmoothSegment(context, remote.stroke, next, isLast, sizeRef.current);
+        remote.stroke.points.push(...next);
+      }
+
+      if (remote.isEnded && remote.queue.length === 0) {
+        completeStroke(remote);
+      }
+    }
+
+    const hasQueued = Array.from(activeStrokes.current.values()).some(r => r.queue.length > 0 || r.isEnded);
+    if (hasQueued) {
+      frame.current = requestAnimationFrame(play);
+    } else {
+      lastFrameAt.current = 0;
+    }
+  }, [canvasRef, completeStroke]);
+
+  const schedule = useCallback(() => {
+    if (frame.current === null) {
+      frame.current = requestAnimationFrame(play);
+    }
+  }, [play]);
+
+  useEffect(() => {
+    if (!socket || !enabled) return;
+
+    // Batches may arrive twice or out of order; each one is applied exactly
+    // once, in sequence, whichever batch of a stroke happens to come first
+    const handleRemoteDrawingAction = (action: RoomDrawingAction) => {
+      if (drawerId === undefined || action.playerId !== drawerId) return;
+
+      // Every batch of a finished stroke has been applied, so a removal can
+      // be applied straight away
+      if (finishedStrokeIds.current.has(action.strokeId)) {
+        if (action.type === 'remove') onStrokeRemovedRef.current(action.strokeId);
+        return;
+      }
+
+      let remote = activeStrokes.current.get(action.strokeId);
+      if (!remote) {
+        remote = {
+          stroke: {
+            id: action.strokeId,
+            points: [],
+            color: action.color,
+            width: action.width,
+            playerId: action.playerId
+          },
+          queue: [],
+          early: new Map(),
+          nextSeq: 0,
+          isEnded: false
+        };
+        activeStrokes.current.set(action.strokeId, remote);
+      }
+
+      if (action.seq < remote.nextSeq || remote.early.has(action.seq)) return;
+
+      remote.early.set(action.seq, decodePoints(action.points || []));
+      if (action.type === 'end') {
+        remote.endSeq = action.seq;
+      }
+      if (action.type === 'remove') {
+        remote.removeSeq = action.seq;
+      }
+
+      let points = remote.early.get(remote.nextSeq);
+      while (points) {
+        remote.early.delete(remote.nextSeq);
+        remote.queue.push(...points);
+        remote.nextSeq++;
+        points = remote.early.get(remote.nextSeq);
+      }
+
+      if (remote.removeSeq !== undefined && remote.nextSeq > remote.removeSeq) {
+        finishStroke(action.strokeId);
+        onStrokeRemovedRef.current(action.strokeId);
+        return;
+      }
+
+      remote.isEnded = remote.endSeq !== undefined && remote.nextSeq > remote.endSeq;
+      schedule();
+    };
+
+    return onEvent(socket, SERVER_EVENTS.drawingUpdate, handleRemoteDrawingAction);
+  }, [socket, enabled, drawerId, schedule, finishStroke]);
+
+  useEffect(() => () => {
+    if (frame.current !== null) cancelAnimationFrame(frame.current);
+  }, []);
+
+  // Strokes still being played back, for full canvas redraws
+  const getActiveStrokes = useCallback((): Stroke[] => (
+    Array.from(activeStrokes.current.values()).map(remote => remote.stroke)
+  ), []);
+
+  // Drop strokes in progress, ignoring anything still on its way for them
+  const clear = useCallback(() => {
+    for (const strokeId of activeStrokes.current.keys()) {
+      finishedStrokeIds.current.add(strokeId);
+    }
+    activeStrokes.current.clear();
+  }, []);
+
+  return { getActiveStrokes, clear };
+}
@@ -0,0 +1,32 @@
+import { useEffect, useState } from 'react';
+import { onEvent, SERVER_EVENTS } from '@/lib/protocol';
+import { estimateClockOffset, TurnTimer } from '@/lib/turn-timer';
+import { useSocket } from '@/contexts/SocketContext';
+
+// The clock of the latest timed turn the server announced in our room.
+// Used above the drawing screen so an announcement that arrives before the
+// screen is up is not missed; check it is for the turn being played.
+export function useTurnTimer(): TurnTimer | null {
+  const { socket, roomId } = useSocket();
+  const [timer, setTimer] = useState<TurnTimer | null>(null);
+
+  useEffect(() => {
+    setTimer(null);
+    if (!socket || !roomId) return;
+
+    return onEvent(socket, SERVER_EVENTS.turnTimer, (data) => {
+      if (data.roomId !== roomId) return;
+
+      setTimer({
+        phase: data.phase,
+        round: data.round,
+        turn: data.turn,
+        drawerId: data.drawerId,
+        deadline: data.deadline,
+        clockOffset: estimateClockOffset(data.serverTime)
+      });
+    });
+  }, [socket, roomId]);
+
+  return timer;
+}
@@ -0,0 +1,87 @@
+import { WordPack } from '../types/game';
+import { wordPackSchema } from './protocol';
+import { formatWordPackText, getWordPackProblems, MAX_PACK_NAME_LENGTH, parseWordPackText } from './word-packs';
+
+// Word packs players write themselves, kept in this browser's localStorage.
+// They can be moved between browsers as JSON, or as plain text with one word
+// per line.
+
+const STORAGE_KEY = 'kaunArtistWordPacks';
+const CUSTOM_PACK_ID_PREFIX = 'custom-';
+
+export const isCustomWordPackId = (id?: string): boolean => !!id?.startsWith(CUSTOM_PACK_ID_PREFIX);
+
+export const createCustomWordPack = (): WordPack => ({
+  id: `${CUSTOM_PACK_ID_PREFIX}${Date.now().toString(36)}${Math.random().toString(36).slice(2, 6)}`,
+  name: '',
+  difficulty: 'medium',
+  locale: navigator.language || 'en',
+  tags: ['custom'],
+  categories: []
+});
+
+// Packs that no longer pass the checks are dropped
+export const loadCustomWordPacks = (): WordPack[] => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '[]');
+    if (!Array.isArray(stored)) return [];
+
+    return stored.flatMap(item => {
+      const result = wordPackSchema.safeParse(item);
+      return result.success && isCustomWordPackId(result.data.id) ? [result.data] : [];
+    });
+  } catch (err) {
+    console.error('[WordPacks] Error loading custom word packs', err);
+    return [];
+  }
+};
+
+export const saveCustomWordPacks = (packs: WordPack[]) => {
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(packs));
+  } catch (err) {
+    console.error('[WordPacks] Error saving custom word packs', err);
+  }
+};
+
+export type WordPackImport =
+  | { pack: WordPack; problems?: undefined }
+  | { pack?: undefined; problems: string[] };
+
+// A JSON export, or a plain text list named after its file. Imported packs
+// get a new id so they never replace a pack already saved here.
+export const importWordPack = (fileName: string, text: string): WordPackImport => {
+  let pack: WordPack;
+
+  if (text.trim().startsWith('{')) {
+    let data: unknown;
+    try {
+      data = JSON.parse(text);
+    } catch {
+      return { problems: ['The file is not valid JSON'] };
+    }
+
+    const result = wordPackSchema.safeParse({ ...(data as object), id: createCustomWordPack().id });
+    if (!result.success) {
+      return { problems: result.error.issues.map(issue => `${issue.path.join('.') || 'pack'}: ${issue.message}`) };
+    }
+    pack = result.data;
+  } else {
+    pack = {
+      ...createCustomWordPack(),
+      name: fileName.replace(/\.[^.]*$/, '').slice(0, MAX_PACK_NAME_LENGTH),
+      categories: parseWordPackText(text)
+    };
+  }
+
+  const problems = getWordPackProblems(pack);
+  return problems.length ? { problems } : { pack };
+};
+
+export const exportWordPack = (pack: WordPack, format: 'json' | 'text') => {
+  const baseName = pack.name.trim().replace(/[^\w-]+/g, '-').toLowerCase() || 'word-pack';
+
+  return format === 'json'
+    ? { fileName: `${baseName}.json`, type: 'application/json', content: JSON.stringify(pack, null, 2) }
+    : { fileName: `${baseName}.txt`, type: 'text/plain', content: formatWordPackText(pack.categories) };
+};
@@ -0,0 +1,105 @@
+import { GameRoom, GameRoomPatch, Player } from '../types/game';
+import { getRoundCompletePatch } from './game-state';
+import { MIN_PLAYERS, removeLobbyPlayer } from './lobby';
+import { createVotingState, tallyVotes } from './voting';
+import { createDiscussionState } from './discussion';
+import { forfeitWordGuess, getVotingCompletePatch } from './word-guess';
+
+// What happens to the game when a player leaves the room for good. The game
+// goes on without them where it can. Without any imposters, with imposters
+// no longer outnumbered, or with too few players left, it is called off and
+// everyone goes back to the lobby.
+// Applied by the host, and by the server when the host is the one leaving.
+
+// Back to the lobby with the players who are left, who ready up again
+const callOffGame = (players: Player[]): GameRoomPatch => ({
+  players: players.map(player => ({ ...player, isImposter: false, isReady: false })),
+  secretWord: '',
+  secretCategory: '',
+  imposterCount: undefined,
+  strokes: [],
+  ...createVotingState(),
+  ...createDiscussionState(),
+  roleAcks: [],
+  currentRound: 1,
+  currentTurn: 0,
+  currentPhase: 'lobby'
+});
+
+// Drop the player's ballot and any ballots cast for them. Voters who picked
+// them vote again.
+const removeFromVoting = (current: GameRoom, departedId: number, players: Player[]): GameRoomPatch => {
+  const ballots: Record<number, number> = {};
+  for (const [voter, voteFor] of Object.entries(current.ballots || {})) {
+    if (Number(voter) !== departedId && voteFor !== departedId) {
+      ballots[Number(voter)] = voteFor;
+    }
+  }
+
+  const hasBallot = (id: number) => ballots[id] !== undefined;
+  const votedPlayerIds = (current.votedPlayerIds || []).filter(hasBallot);
+  const lockedPlayerIds = (current.lockedPlayerIds || []).filter(hasBallot);
+
+  if (players.every(p => lockedPlayerIds.includes(p.id))) {
+    return {
+      players,
+      ballots,
+      votedPlayerIds,
+      lockedPlayerIds,
+      ...getVotingCompletePatch({ ...current, players }, tallyVotes(ballots))
+    };
+  }
+
+  return { players, ballots, votedPlayerIds, lockedPlayerIds };
+};
+
+// Carry on with the phase being played without them
+const removeFromPhase = (current: GameRoom, departed: Player, players: Player[]): GameRoomPatch => {
+  switch (current.currentPhase) {
+    case 'wordReveal': {
+      const roleAcks = (current.roleAcks || []).filter(id => id !== departed.id);
+      return players.every(p => roleAcks.includes(p.id))
+        ? { players, roleAcks, currentPhase: 'drawing', currentTurn: 0 }
+        : { players, roleAcks };
+    }
+
+    // Later turns move up a place, so if it was their turn the next player
+    // is up straight away
+    case 'drawing': {
+      const index = current.players.indexOf(departed);
+      const currentTurn = index < current.currentTurn ? current.currentTurn - 1 : current.currentTurn;
+      return currentTurn < players.length
+        ? { players, currentTurn }
+        : { players, ...getRoundCompletePatch(current, current.strokes) };
+    }
+
+    case 'voting':
+      return removeFromVoting(current, departed.id, players);
+
+    default:
+      return { players };
+  }
+};
+
+export const removeDepartedPlayer = (current: GameRoom, clientId: string): GameRoomPatch | null => {
+  if (current.currentPhase === 'lobby') {
+    const players = removeLobbyPlayer(current.players, clientId);
+    return players && { players };
+  }
+
+  const departed = current.players.find(p => p.clientId === clientId);
+  if (!departed || current.currentPhase === 'results') return null;
+
+  // Everyone stays on for the results, a caught imposter just loses their guess
+  if (current.currentPhase === 'imposterGuess') return forfeitWordGuess(current, departed.id);
+
+  const players = current.players.filter(p => p.id !== departed.id);
+  const imposterCount = players.filter(p => p.isImposter).length;
+  if (!imposterCount || imposterCount * 2 >= players.length || players.length < MIN_PLAYERS) {
+    return callOffGame(players);
+  }
+
+  // Fewer imposters left means fewer suspects put out by the vote
+  const patch = removeFromPhase(current, departed, players);
+  return departed.isImposter ? { ...patch, imposterCount } : patch;
+};
@@ -0,0 +1,41 @@
+import { ChatMessage, GameRoom, GameRoomPatch } from '../types/game';
+
+// The discussion between the last drawing and the vote. Players talk the
+// drawing over in the room chat, or on a shared notes pad in local games,
+// and both are kept with the rest of the game. Chat only opens once the
+// drawing is done, so nobody can spell the word out while it is going on.
+
+export const MAX_CHAT_MESSAGE_LENGTH = 200;
+// Older messages are dropped beyond this, to keep the game state small
+export const MAX_CHAT_MESSAGES = 200;
+export const MAX_NOTES_LENGTH = 2000;
+
+export const DEFAULT_DISCUSSION_DURATION = 90;
+
+export const createDiscussionState = (): Pick<GameRoom, 'chat' | 'notes'> => ({
+  chat: [],
+  notes: ''
+});
+
+export const isChatOpen = (state?: GameRoom): boolean => state?.currentPhase === 'discussion';
+
+// Host side: add a player's message to the chat. Null when chat is closed,
+// the sender has no seat or the message is empty.
+export const addChatMessage = (current: GameRoom, clientId: string, text: string): GameRoomPatch | null => {
+  const player = current.players.find(p => p.clientId === clientId);
+  const trimmed = text.trim().slice(0, MAX_CHAT_MESSAGE_LENGTH);
+  if (!isChatOpen(current) || !player || !trimmed) return null;
+
+  // Every change bumps the version, so it makes a unique id
+  const message: ChatMessage = {
+    id: `${current.version}-${player.id}`,
+    playerId: player.id,
+    text: trimmed,
+    timestamp: Date.now()
+  };
+  return { chat: [...(current.chat || []), message].slice(-MAX_CHAT_MESSAGES) };
+};
+
+export const setNotes = (current: GameRoom, notes: string): GameRoomPatch | null => (
+  isChatOpen(current) ? { notes: notes.slice(0, MAX_NOTES_LENGTH) } : null
+);
@@ -0,0 +1,113 @@
+import { DrawingAction } from '../types/game';
+import { encodePoints, FLUSH_INTERVAL_MS, Point } from './drawing-stream';
+
+// Sends the stroke being drawn in batches, see src/lib/drawing-stream.ts.
+// Browser only; it times its batches on animation frames.
+
+type StrokeInfo = Pick<DrawingAction, 'playerId' | 'color' | 'width' | 'strokeId'>;
+
+// Strokes remembered after they were sent, so they can still be undone
+const MAX_SENT_STROKES = 50;
+
+// Buffers the grid points of the stroke being drawn and sends them at most
+// once per FLUSH_INTERVAL_MS, on an animation frame
+export class DrawingBatcher {
+  private pending: Point[] = [];
+  private lastSent: Point | undefined;
+  private stroke: StrokeInfo | null = null;
+  // Sent strokes by id, with the sequence number their removal would take
+  private sent = new Map<string, { stroke: StrokeInfo; nextSeq: number }>();
+  private seq = 0;
+  private frame: number | null = null;
+  private lastFlushAt = 0;
+
+  constructor(private send: (action: DrawingAction) => void) {}
+
+  public start(stroke: StrokeInfo, point: Point) {
+    if (this.stroke) this.end();
+
+    this.stroke = stroke;
+    this.pending = [point];
+    this.lastSent = undefined;
+    this.seq = 0;
+    this.schedule();
+  }
+
+  public add(point: Point) {
+    if (!this.stroke) return;
+
+    this.pending.push(point);
+    this.schedule();
+  }
+
+  public end() {
+    if (!this.stroke) return;
+
+    this.flush();
+    this.send({ type: 'end', ...this.stroke, seq: this.seq++ });
+    this.finishStroke();
+  }
+
+  // Take a stroke back off everyone else's canvas, whether it is still being
+  // drawn or not
+  public remove(strokeId: string) {
+    if (this.stroke?.strokeId === strokeId) {
+      this.pending = [];
+      this.finishStroke();
+    }
+
+    const sent = this.sent.get(strokeId);
+    if (!sent) return;
+
+    this.sent.delete(strokeId);
+    this.send({ type: 'remove', ...sent.stroke, seq: sent.nextSeq });
+  }
+
+  public dispose() {
+    this.stroke = null;
+    this.pending = [];
+    this.sent.clear();
+    this.cancel();
+  }
+
+  private finishStroke() {
+    if (!this.stroke) return;
+
+    this.sent.set(this.stroke.strokeId, { stroke: this.stroke, nextSeq: this.seq });
+    if (this.sent.size > MAX_SENT_STROKES) {
+      const [oldest] = this.sent.keys();
+      this.sent.delete(oldest);
+    }
+    this.stroke = null;
+    this.cancel();
+  }
+
+  private schedule() {
+    if (this.frame !== null) return;
+
+    this.frame = requestAnimationFrame((time) => {
+      this.frame = null;
+      if (time - this.lastFlushAt >= FLUSH_INTERVAL_MS) {
+        this.lastFlushAt = time;
+        this.flush();
+      }
+      if (this.pending.length > 0) this.schedule();
+    });
+  }
+
+  private cancel() {
+    if (this.frame !== null) cancelAnimationFrame(this.frame);
+    this.frame = null;
+  }
+
+  private flush() {
+    if (!this.stroke || this.pending.length === 0) return;
+
+    const points = encodePoints(this.pending, this.lastSent);
+    this.lastSent = this.pending[this.pending.length - 1];
+    this.pending = [];
+    if (points.length === 0) return;
+
+    this.send({ type: this.seq === 0 ? 'start' : 'move', ...this.stroke, points, seq: this.seq++ });
+  }
+}
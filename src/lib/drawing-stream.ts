@@ -0,0 +1,132 @@
+import { DrawingAction, Stroke } from '../types/game';
+
+// Live drawing is streamed in small batches instead of one message per
+// pointer move. Points are quantised to a fixed grid relative to the canvas
+// size, so devices with different canvas sizes agree on where a point is,
+// and each batch sends its first point in full and the rest as deltas.
+// Batches carry their stroke id and a sequence number, so receivers can drop
+// duplicates and put late batches back in order. Undoing a stroke sends one
+// more batch that removes it, numbered after the stroke's last, so it cannot
+// overtake the points it removes. Finished strokes are kept in the game
+// state on the same grid, and only scaled to a canvas to draw.
+//
+// Batches are sent by src/lib/drawing-batcher.ts. This module is shared with
+// the game server in /server, which rebuilds a turn that ran out of time
+// from the batches it relayed.
+
+export interface Point {
+  x: number;
+  y: number;
+}
+
+export interface CanvasSize {
+  width: number;
+  height: number;
+}
+
+// Grid points per canvas side
+const COORD_SCALE = 1024;
+
+// How often buffered points are sent while a stroke is being drawn
+export const FLUSH_INTERVAL_MS = 50;
+
+const quantise = (value: number, size: number) => (
+  Math.min(COORD_SCALE, Math.max(0, Math.round((value / size) * COORD_SCALE)))
+);
+
+// A point on the canvas as a point on the grid
+export const toGridPoint = (point: Point, size: CanvasSize): Point => ({
+  x: quantise(point.x, size.width),
+  y: quantise(point.y, size.height)
+});
+
+// Line widths scale with the canvas width
+export const toGridWidth = (width: number, size: CanvasSize): number => (
+  (width / size.width) * COORD_SCALE
+);
+
+// A stroke kept on the grid, scaled to be drawn on a canvas of this size
+export const toCanvasStroke = (stroke: Stroke, size: CanvasSize): Stroke => ({
+  ...stroke,
+  points: stroke.points.map(point => ({
+    x: (point.x / COORD_SCALE) * size.width,
+    y: (point.y / COORD_SCALE) * size.height
+  })),
+  width: (stroke.width / COORD_SCALE) * size.width
+});
+
+// Encode grid points as [x0, y0, dx1, dy1, ...], skipping points on the same
+// grid cell as the one before
+export const encodePoints = (points: Point[], previous?: Point): number[] => {
+  const encoded: number[] = [];
+  let last = previous;
+  let isFirst = true;
+
+  for (const { x, y } of points) {
+    if (last && last.x === x && last.y === y) continue;
+
+    if (isFirst) {
+      encoded.push(x, y);
+      isFirst = false;
+    } else {
+      encoded.push(x - last!.x, y - last!.y);
+    }
+    last = { x, y };
+  }
+
+  return encoded;
+};
+
+export const decodePoints = (encoded: number[]): Point[] => {
+  const points: Point[] = [];
+  let x = 0;
+  let y = 0;
+
+  for (let i = 0; i + 1 < encoded.length; i += 2) {
+    x = i === 0 ? encoded[i] : x + encoded[i];
+    y = i === 0 ? encoded[i + 1] : y + encoded[i + 1];
+    points.push({ x, y });
+  }
+
+  return points;
+};
+
+export const createStrokeId = (playerId: number): string => (
+  `${playerId}-${Date.now().toString(36)}-${Math.random().toString(36).substring(2, 8)}`
+);
+
+// Append strokes that are not already there, by stroke id
+export const mergeStrokes = (existing: Stroke[], incoming: Stroke[]): Stroke[] => {
+  const ids = new Set(existing.map(stroke => stroke.id).filter(Boolean));
+  const added = incoming.filter(stroke => !stroke.id || !ids.has(stroke.id));
+  return added.length > 0 ? [...existing, ...added] : existing;
+};
+
+// Rebuild strokes from their batches, which may be out of order or sent
+// twice. Strokes still being drawn keep the points that arrived in sequence
+// so far, and undone strokes are left out.
+export const buildStrokes = (actions: DrawingAction[]): Stroke[] => {
+  const batchesByStroke = new Map<string, Map<number, DrawingAction>>();
+  for (const action of actions) {
+    const batches = batchesByStroke.get(action.strokeId) || new Map<number, DrawingAction>();
+    if (!batches.has(action.seq)) batches.set(action.seq, action);
+    batchesByStroke.set(action.strokeId, batches);
+  }
+
+  const strokes: Stroke[] = [];
+  for (const [strokeId, batches] of batchesByStroke) {
+    const points: Point[] = [];
+    let isRemoved = false;
+    for (let seq = 0; batches.has(seq) && !isRemoved; seq++) {
+      const batch = batches.get(seq)!;
+      isRemoved = batch.type === 'remove';
+      points.push(...decodePoints(batch.points || []));
+    }
+
+    const [{ color, width, playerId }] = batches.values();
+    if (!isRemoved && points.length > 0) {
+      strokes.push({ id: strokeId, points, color, width, playerId });
+    }
+  }
+  return strokes;
+};
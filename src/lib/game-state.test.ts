@@ -0,0 +1,67 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameRoom, Stroke } from '../types/game';
+import { createGameRoom, getReportedTurnPatch, isCurrentDrawer } from './game-state';
+
+const DRAWER = 'user-drawer';
+const IMPOSTER = 'user-imposter';
+
+const createDrawingState = (): GameRoom => ({
+  ...createGameRoom('ROOM42', DRAWER),
+  players: [
+    { id: 1, name: 'Asha', colorIndex: 1, clientId: DRAWER },
+    { id: 2, name: 'Ravi', colorIndex: 2, clientId: IMPOSTER, isImposter: true },
+    { id: 3, name: 'Meera', colorIndex: 3, clientId: 'user-third' }
+  ],
+  currentPhase: 'drawing'
+});
+
+const stroke = (id: string, playerId: number): Stroke => ({
+  id,
+  points: [{ x: 10, y: 10 }],
+  color: '#FF5252',
+  width: 12,
+  playerId
+});
+
+describe('isCurrentDrawer', () => {
+  it('only accepts the drawer drawing as their own seat', () => {
+    const state = createDrawingState();
+
+    assert.equal(isCurrentDrawer(state, DRAWER, 1), true);
+    assert.equal(isCurrentDrawer(state, IMPOSTER, 2), false);
+    assert.equal(isCurrentDrawer(state, IMPOSTER, 1), false);
+    assert.equal(isCurrentDrawer(state, DRAWER, 2), false);
+    assert.equal(isCurrentDrawer(state, undefined, 1), false);
+  });
+
+  it('has no drawer outside the drawing phase', () => {
+    assert.equal(isCurrentDrawer({ ...createDrawingState(), currentPhase: 'voting' }, DRAWER, 1), false);
+  });
+});
+
+describe('getReportedTurnPatch', () => {
+  it('ends the turn with the strokes the drawer reported', () => {
+    const patch = getReportedTurnPatch(createDrawingState(), DRAWER, [stroke('a', 1)], 1, 0);
+
+    assert.equal(patch?.currentTurn, 1);
+    assert.deepEqual(patch?.strokes?.map(s => s.id), ['a']);
+  });
+
+  it('ignores a report from anyone but the drawer', () => {
+    assert.equal(getReportedTurnPatch(createDrawingState(), IMPOSTER, [stroke('a', 1)], 1, 0), null);
+  });
+
+  it('leaves out strokes of other seats', () => {
+    const patch = getReportedTurnPatch(createDrawingState(), DRAWER, [stroke('a', 1), stroke('b', 2)], 1, 0);
+
+    assert.deepEqual(patch?.strokes?.map(s => s.id), ['a']);
+  });
+
+  it('ignores a report of another turn', () => {
+    const state = createDrawingState();
+
+    assert.equal(getReportedTurnPatch(state, DRAWER, [stroke('a', 1)], 1, 1), null);
+    assert.equal(getReportedTurnPatch(state, DRAWER, [stroke('a', 1)], 2, 0), null);
+  });
+});
@@ -0,0 +1,99 @@
+import { GameConfig, GameRoom, GameRoomPatch, GameStateDelta, Player, Stroke } from '../types/game';
+import { mergeStrokes } from './drawing-stream';
+
+// Helpers for the versioned game state. The host (or the only device in a
+// local game) is the authority: it applies patches and broadcasts them as
+// deltas. Everyone else applies those deltas strictly in version order.
+
+export const createGameRoom = (id: string, hostId: string, gameConfig?: GameConfig): GameRoom => ({
+  id,
+  hostId,
+  players: [],
+  gameConfig,
+  currentPhase: 'setup',
+  secretWord: '',
+  strokes: [],
+  votes: {},
+  timerEnabled: gameConfig?.timerEnabled || false,
+  timerDuration: gameConfig?.timerDuration || 30,
+  currentRound: 1,
+  currentTurn: 0,
+  startingPlayerOffset: 0,
+  version: 0
+});
+
+// Apply a change on the authority, producing the next version
+export const applyPatch = (state: GameRoom, patch: GameRoomPatch): GameRoom => ({
+  ...state,
+  ...patch,
+  version: state.version + 1
+});
+
+// After the last turn of a round, either start the next round or move on to
+// the discussion before voting
+export const getRoundCompletePatch = (current: GameRoom, strokes: Stroke[]): GameRoomPatch => {
+  const roundCount = current.gameConfig?.roundCount || 1;
+
+  if (current.currentRound < roundCount) {
+    return { strokes, currentRound: current.currentRound + 1, currentTurn: 0 };
+  }
+
+  return { strokes, currentPhase: 'discussion' };
+};
+
+// After a player's turn, pass on to the next player or finish the round
+export const getTurnCompletePatch = (current: GameRoom, strokes: Stroke[]): GameRoomPatch => (
+  current.currentTurn < current.players.length - 1
+    ? { strokes, currentTurn: current.currentTurn + 1 }
+    : getRoundCompletePatch(current, strokes)
+);
+
+// The player whose drawing turn is being played, if any
+export const getCurrentDrawer = (state: GameRoom): Player | undefined => (
+  state.currentPhase === 'drawing' ? state.players[state.currentTurn] : undefined
+);
+
+// Whether a client is the current drawer, drawing as their own seat. Only
+// the drawer may draw on the turn or report it finished.
+export const isCurrentDrawer = (state: GameRoom | undefined, clientId: string | undefined, playerId: number): boolean => {
+  const drawer = state && getCurrentDrawer(state);
+  return !!drawer && !!clientId && drawer.clientId === clientId && drawer.id === playerId;
+};
+
+// A drawer's report of their finished turn, applied by the host. Null unless
+// it is the turn being played and the report came from its drawer; strokes
+// of any other seat are left out. Duplicate or late reports are ignored.
+export const getReportedTurnPatch = (
+  current: GameRoom,
+  senderId: string,
+  turnStrokes: Stroke[],
+  round: number,
+  turn: number
+): GameRoomPatch | null => {
+  if (current.currentRound !== round || current.currentTurn !== turn) return null;
+
+  const drawer = getCurrentDrawer(current);
+  if (!drawer || !isCurrentDrawer(current, senderId, drawer.id)) return null;
+
+  const drawn = turnStrokes.filter(stroke => stroke.playerId === drawer.id);
+  return getTurnCompletePatch(current, mergeStrokes(current.strokes, drawn));
+};
+
+export type DeltaStatus = 'applied' | 'stale' | 'gap';
+
+// Apply a delta received from the authority. Deltas that are older than the
+// current state are ignored, and deltas from the future mean we missed one.
+export const applyDelta = (
+  state: GameRoom,
+  delta: GameStateDelta
+): { state: GameRoom; status: DeltaStatus } => {
+  if (delta.version <= state.version) {
+    return { state, status: 'stale' };
+  }
+
+  if (delta.version > state.version + 1) {
+    return { state, status: 'gap' };
+  }
+
+  return { state: { ...state, ...delta.patch, version: delta.version }, status: 'applied' };
+};
@@ -0,0 +1,44 @@
+import { GameConfig, Player } from '../types/game';
+
+// Games can have more than one imposter. They are drawn at random when a game
+// starts, and can optionally be told who the other imposters are. The vote
+// puts out as many suspects as there are imposters.
+
+export const MAX_IMPOSTERS = 3;
+
+// Innocents always outnumber the imposters, so small games get fewer than
+// the host asked for
+export const getImposterCount = (config: GameConfig | undefined, playerCount: number): number => {
+  const requested = config?.imposterCount || 1;
+  const allowed = Math.max(1, Math.floor((playerCount - 1) / 2));
+  return Math.max(1, Math.min(requested, allowed, MAX_IMPOSTERS));
+};
+
+// Mark `count` random players as imposters, and everyone else as innocent
+export const assignImposters = <T extends Player>(players: T[], count: number): T[] => {
+  const seats = players.map((_, index) => index);
+  for (let i = seats.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [seats[i], seats[j]] = [seats[j], seats[i]];
+  }
+
+  const imposterSeats = new Set(seats.slice(0, count));
+  return players.map((player, index) => ({ ...player, isImposter: imposterSeats.has(index) }));
+};
+
+// The other imposters a player may know about. Empty for innocents, and
+// when imposters play without knowing each other.
+export const getFellowImposters = (players: Player[], player: Player | undefined, knowEachOther: boolean): Player[] => (
+  knowEachOther && player?.isImposter
+    ? players.filter(p => p.isImposter && p.id !== player.id)
+    : []
+);
+
+// The most voted players, as many as there are imposters. Players without a
+// vote are never put out, and ties go to the earlier seat.
+export const getEliminatedPlayers = (players: Player[], votes: Record<number, number>, count: number): Player[] => (
+  players
+    .filter(p => (votes[p.id] || 0) > 0)
+    .sort((a, b) => (votes[b.id] || 0) - (votes[a.id] || 0) || a.id - b.id)
+    .slice(0, count)
+);
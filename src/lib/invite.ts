@@ -0,0 +1,17 @@
+// Invite links open the app straight into the join flow for a room, e.g.
+// https://example.com/room/ABC123. Older links used `?room=ABC123`, which
+// is still understood.
+
+export const INVITE_PATH = '/room';
+
+const ROOM_CODE_PATTERN = /^[A-Z0-9]{6}$/;
+
+// The room code in a link or typed by hand, or null if it cannot be one
+export const parseRoomCode = (value?: string | null): string | null => {
+  const code = value?.trim().toUpperCase();
+  return code && ROOM_CODE_PATTERN.test(code) ? code : null;
+};
+
+export const getInviteLink = (roomId: string, origin = window.location.origin): string => (
+  `${origin}${INVITE_PATH}/${roomId}`
+);
@@ -0,0 +1,69 @@
+import { Player } from '../types/game';
+
+// Roster rules for the multiplayer lobby. Only the host applies these; other
+// clients send their name and ready state to the host as intents.
+
+export const MIN_PLAYERS = 3;
+export const MAX_NAME_LENGTH = 20;
+
+const COLOR_COUNT = 10;
+
+export const normalizeName = (name: string): string => name.trim().slice(0, MAX_NAME_LENGTH);
+
+// Every player color is taken, so nobody else can join until someone leaves
+export const isLobbyFull = (players: Player[]): boolean => players.length >= COLOR_COUNT;
+
+export const isNameTaken = (players: Player[], name: string, clientId?: string): boolean => (
+  players.some(p => p.clientId !== clientId && p.name.toLowerCase() === name.toLowerCase())
+);
+
+// A placeholder name nobody on the roster uses yet, numbered once every
+// suggestion is taken
+export const getUnusedName = (players: Player[], names: string[]): string => {
+  const unused = names.filter(name => !isNameTaken(players, name));
+  if (unused.length > 0) return unused[Math.floor(Math.random() * unused.length)];
+
+  const base = names[Math.floor(Math.random() * names.length)] || 'Player';
+  let number = 2;
+  while (isNameTaken(players, `${base} ${number}`)) number++;
+  return `${base} ${number}`;
+};
+
+// Add a client to the roster, or rename it if it already has a seat. Returns
+// null when nothing changes or the name is already used by someone else.
+export const upsertLobbyPlayer = (players: Player[], clientId: string, rawName: string): Player[] | null => {
+  const name = normalizeName(rawName);
+  if (!name || isNameTaken(players, name, clientId)) return null;
+
+  const existing = players.find(p => p.clientId === clientId);
+  if (existing) {
+    if (existing.name === name) return null;
+    return players.map(p => (p.clientId === clientId ? { ...p, name } : p));
+  }
+
+  if (isLobbyFull(players)) return null;
+
+  // First color nobody is using, so colors stay distinct as people come and go
+  const usedColors = new Set(players.map(p => p.colorIndex));
+  let colorIndex = 1;
+  while (usedColors.has(colorIndex)) colorIndex++;
+
+  const id = players.reduce((max, p) => Math.max(max, p.id), -1) + 1;
+
+  return [...players, { id, name, colorIndex, clientId, isOnline: true, isReady: false }];
+};
+
+export const setLobbyPlayerReady = (players: Player[], clientId: string, isReady: boolean): Player[] | null => {
+  const existing = players.find(p => p.clientId === clientId);
+  if (!existing || !!existing.isReady === isReady) return null;
+
+  return players.map(p => (p.clientId === clientId ? { ...p, isReady } : p));
+};
+
+export const removeLobbyPlayer = (players: Player[], clientId: string): Player[] | null => (
+  players.some(p => p.clientId === clientId)
+    ? players.filter(p => p.clientId !== clientId)
+    : null
+);
+
+export const getReadyPlayers = (players: Player[]): Player[] => players.filter(p => p.isReady);
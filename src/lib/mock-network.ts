@@ -0,0 +1,85 @@
+// Simulated network between mock sockets and the mock server. With the
+// default conditions messages go straight through; otherwise each one can be
+// delayed, dropped, duplicated or held back so later messages overtake it.
+// Used to reproduce desyncs and exercise reconnect logic without a real
+// network.
+
+export interface NetworkConditions {
+  // Base one-way delay, plus a random extra delay of up to `jitterMs`
+  latencyMs: number;
+  jitterMs: number;
+  // Chance per message, from 0 to 1
+  dropRate: number;
+  duplicateRate: number;
+  reorderRate: number;
+}
+
+export const PERFECT_NETWORK: NetworkConditions = {
+  latencyMs: 0,
+  jitterMs: 0,
+  dropRate: 0,
+  duplicateRate: 0,
+  reorderRate: 0
+};
+
+// Extra hold-back for a reordered message, on top of the worst normal delay
+const REORDER_DELAY_MS = 100;
+
+const clampRate = (rate: number) => Math.min(1, Math.max(0, rate || 0));
+
+export const normalizeConditions = (conditions: Partial<NetworkConditions>): NetworkConditions => ({
+  latencyMs: Math.max(0, conditions.latencyMs || 0),
+  jitterMs: Math.max(0, conditions.jitterMs || 0),
+  dropRate: clampRate(conditions.dropRate),
+  duplicateRate: clampRate(conditions.duplicateRate),
+  reorderRate: clampRate(conditions.reorderRate)
+});
+
+const isPerfect = (conditions: NetworkConditions) => (
+  Object.values(conditions).every(value => value === 0)
+);
+
+export class MockNetwork {
+  private conditions: NetworkConditions = PERFECT_NETWORK;
+
+  public setConditions(conditions: Partial<NetworkConditions>) {
+    this.conditions = normalizeConditions({ ...this.conditions, ...conditions });
+  }
+
+  public getConditions(): NetworkConditions {
+    return { ...this.conditions };
+  }
+
+  // One-way delay for a single message
+  public sampleDelay(): number {
+    return this.conditions.latencyMs + Math.random() * this.conditions.jitterMs;
+  }
+
+  // Send one message; `deliver` runs zero, one or two times
+  public transmit(label: string, deliver: () => void) {
+    const conditions = this.conditions;
+    if (isPerfect(conditions)) {
+      deliver();
+      return;
+    }
+
+    if (Math.random() < conditions.dropRate) {
+      console.log(`[MockNetwork] Dropped ${label}`);
+      return;
+    }
+
+    const copies = Math.random() < conditions.duplicateRate ? 2 : 1;
+    if (copies > 1) {
+      console.log(`[MockNetwork] Duplicated ${label}`);
+    }
+
+    for (let i = 0; i < copies; i++) {
+      let delay = this.sampleDelay();
+      if (Math.random() < conditions.reorderRate) {
+        console.log(`[MockNetwork] Holding back ${label}`);
+        delay += conditions.latencyMs + conditions.jitterMs + REORDER_DELAY_MS;
+      }
+      setTimeout(deliver, delay);
+    }
+  }
+}
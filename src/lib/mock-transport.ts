@@ -0,0 +1,75 @@
+// Cross-tab message transport for the mock socket server. Each tab runs its
+// own SocketServer instance; this carries the events one of them emits to the
+// others so tabs on the same machine behave like separate clients.
+
+export interface TransportMessage {
+  event: string;
+  data: unknown;
+}
+
+export interface CrossTabTransport {
+  post: (message: TransportMessage) => void;
+  close: () => void;
+}
+
+const CHANNEL_NAME = 'kaun-artist-mock-socket';
+const STORAGE_KEY = 'mockSocketMessage';
+
+// Preferred: BroadcastChannel delivers to every other tab of the same origin
+const createBroadcastChannelTransport = (
+  onMessage: (message: TransportMessage) => void
+): CrossTabTransport => {
+  const channel = new BroadcastChannel(CHANNEL_NAME);
+  channel.onmessage = (e: MessageEvent<TransportMessage>) => onMessage(e.data);
+
+  return {
+    post: (message) => channel.postMessage(message),
+    close: () => channel.close()
+  };
+};
+
+// Fallback: writing to localStorage fires a `storage` event in other tabs.
+// A nonce makes sure repeated identical messages still change the value.
+const createStorageTransport = (
+  onMessage: (message: TransportMessage) => void
+): CrossTabTransport => {
+  const handleStorage = (e: StorageEvent) => {
+    if (e.key !== STORAGE_KEY || !e.newValue) return;
+
+    try {
+      const { message } = JSON.parse(e.newValue);
+      onMessage(message);
+    } catch (err) {
+      console.error('[MockTransport] Error parsing storage message', err);
+    }
+  };
+
+  window.addEventListener('storage', handleStorage);
+
+  return {
+    post: (message) => {
+      try {
+        const nonce = `${Date.now()}-${Math.random().toString(36).substring(2, 9)}`;
+        localStorage.setItem(STORAGE_KEY, JSON.stringify({ nonce, message }));
+      } catch (err) {
+        console.error('[MockTransport] Error posting storage message', err);
+      }
+    },
+    close: () => window.removeEventListener('storage', handleStorage)
+  };
+};
+
+export const createCrossTabTransport = (
+  onMessage: (message: TransportMessage) => void
+): CrossTabTransport | null => {
+  if (typeof window === 'undefined') {
+    return null;
+  }
+
+  if (typeof BroadcastChannel !== 'undefined') {
+    return createBroadcastChannelTransport(onMessage);
+  }
+
+  console.log('[MockTransport] BroadcastChannel unavailable, falling back to storage events');
+  return createStorageTransport(onMessage);
+};
@@ -0,0 +1,31 @@
+import { GameRoom } from '../types/game';
+import { removeDepartedPlayer } from './departures';
+
+// Host powers shared by the mock socket server and the game server in
+// /server. The server checks every moderation request against the room's
+// current host, so only the host can kick, ban, lock or hand over the room.
+
+// Hosting can only be handed over between games: the host's device holds
+// every secret of a game in progress, and a new host would learn them
+const HOST_TRANSFER_PHASES: GameRoom['currentPhase'][] = ['setup', 'playerConfig', 'lobby', 'results'];
+
+export const canTransferHost = (state?: GameRoom): boolean => (
+  !state || HOST_TRANSFER_PHASES.includes(state.currentPhase)
+);
+
+// The stored game state under a new host, as a new version so every client
+// replaces its copy
+export const withHost = (state: GameRoom, hostId: string): GameRoom => ({
+  ...state,
+  hostId,
+  version: state.version + 1
+});
+
+// The stored game state once the host has left the room, at any point in a
+// game. The server keeps a full copy of the state, so the next host picks up
+// the current round where it was, without the player who left. Like any
+// host, they hold every secret of the game from then on.
+export const migrateHost = (state: GameRoom, departedHostId: string, hostId: string): GameRoom => {
+  const patch = removeDepartedPlayer(state, departedHostId);
+  return withHost(patch ? { ...state, ...patch } : state, hostId);
+};
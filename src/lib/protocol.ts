@@ -0,0 +1,414 @@
+import { z } from 'zod';
+import {
+  ChatMessage,
+  DrawingAction,
+  GameConfig,
+  GameRoom,
+  GameRoomPatch,
+  GameStateDelta,
+  GameStateSnapshot,
+  Player,
+  Stroke,
+  WordCategory,
+  WordPack
+} from '../types/game';
+import { ROOM_EXPIRY_REASONS } from './room-lifecycle';
+import { MAX_CHAT_MESSAGE_LENGTH, MAX_NOTES_LENGTH } from './discussion';
+import { TIMED_PHASES } from './turn-timer';
+import { MAX_IMPOSTERS } from './imposters';
+import { MAX_GUESS_LENGTH } from './word-guess';
+import { MAX_NAME_LENGTH } from './lobby';
+import {
+  MAX_CATEGORY_NAME_LENGTH,
+  MAX_PACK_DESCRIPTION_LENGTH,
+  MAX_PACK_NAME_LENGTH,
+  MAX_PACK_WORDS,
+  MAX_WORD_LENGTH
+} from './word-packs';
+
+// Socket events shared by the browser client, the mock socket server and the
+// standalone game server in /server: each event's name and a zod schema for
+// its payload. Every received payload is checked against its schema, and
+// malformed messages are logged and dropped before any handler sees them.
+
+// Events the server handles itself instead of relaying
+export const SERVER_EVENTS = {
+  createRoom: 'create-room',
+  joinRoom: 'join-room',
+  // Public rooms for the room browser
+  listRooms: 'list-rooms',
+  leaveRoom: 'leave-room',
+  drawingAction: 'drawing-action',
+  drawingUpdate: 'drawing-update',
+  playerJoined: 'player-joined',
+  playerLeft: 'player-left',
+  // Sent to a client on connect with its stable id and any seat it reclaimed
+  session: 'session',
+  playerDisconnected: 'player-disconnected',
+  playerReconnected: 'player-reconnected',
+  // Host-authoritative game state, see lib/game-state.ts
+  gameStateSnapshot: 'game-state-snapshot',
+  gameStateDelta: 'game-state-delta',
+  requestGameState: 'request-game-state',
+  // A room was closed for being idle or too old, see lib/room-lifecycle.ts
+  roomExpired: 'room-expired',
+  // Host moderation requests, checked by the server, see lib/moderation.ts
+  kickPlayer: 'kick-player',
+  lockRoom: 'lock-room',
+  transferHost: 'transfer-host',
+  // ...and what everyone in the room is told when they happen
+  playerKicked: 'player-kicked',
+  roomLocked: 'room-locked',
+  hostChanged: 'host-changed',
+  // Timed drawing turns and discussion, run by the server, see lib/turn-timer.ts
+  turnTimer: 'turn-timer',
+  turnExpired: 'turn-expired',
+} as const;
+
+// Player actions that are relayed to every other client in the room, where
+// the host turns them into game state changes. Each payload carries the
+// `roomId` it belongs to, and the server stamps it with the sender's client
+// id so the host knows whose seat it came from.
+export const ROOM_EVENTS = [
+  'player-profile',
+  'player-ready',
+  'player-role-ack',
+  'player-turn-complete',
+  // Only relayed while the discussion is on, see lib/discussion.ts
+  'player-chat',
+  'player-vote',
+  'player-word-guess',
+] as const;
+
+export type RoomEvent = typeof ROOM_EVENTS[number];
+
+export const isRoomEvent = (event: string): event is RoomEvent =>
+  (ROOM_EVENTS as readonly string[]).includes(event);
+
+export const MAX_ROOM_CLIENTS = 10;
+// Spectators watch without a seat and do not count towards MAX_ROOM_CLIENTS
+export const MAX_ROOM_SPECTATORS = 20;
+
+// How long a dropped client keeps its seat before it is removed from the room
+export const SEAT_GRACE_PERIOD_MS = 60 * 1000;
+
+// Answer to a join-room request
+export type JoinRoomResult =
+  | 'joined'
+  | 'not-found'
+  | 'expired'
+  | 'full'
+  | 'locked'
+  | 'banned'
+  | 'passphrase-required'
+  | 'wrong-passphrase';
+
+export const roomIdSchema = z.string().min(1).max(32);
+
+export const MAX_PASSPHRASE_LENGTH = 64;
+
+const passphraseSchema = z.string().max(MAX_PASSPHRASE_LENGTH);
+
+// Requests that are answered through an acknowledgement callback rather
+// than an event, so they are checked by hand where they are handled.
+// Public rooms are listed in the room browser; private rooms can only be
+// joined by code, optionally with a passphrase.
+export const createRoomRequestSchema = z.object({
+  visibility: z.enum(['public', 'private']),
+  passphrase: passphraseSchema.optional()
+});
+
+export const joinRoomRequestSchema = z.object({
+  roomId: roomIdSchema,
+  passphrase: passphraseSchema.optional(),
+  // Watch the game instead of taking a seat
+  spectate: z.boolean().optional()
+});
+
+export type CreateRoomRequest = z.infer<typeof createRoomRequestSchema>;
+export type JoinRoomRequest = z.infer<typeof joinRoomRequestSchema>;
+export type RoomVisibility = CreateRoomRequest['visibility'];
+
+// What the room browser shows about a public room
+export const roomListingSchema = z.object({
+  roomId: roomIdSchema,
+  hostName: z.string(),
+  playerCount: z.number().int(),
+  maxPlayers: z.number().int(),
+  roundCount: z.number().int(),
+  timerEnabled: z.boolean(),
+  timerDuration: z.number(),
+  spectatorCount: z.number().int(),
+  // Players joining a game in progress wait for the next one
+  inProgress: z.boolean()
+});
+
+export const roomListSchema = z.array(roomListingSchema);
+
+export type RoomListing = z.infer<typeof roomListingSchema>;
+
+// Seat ids as object keys, which arrive as strings once sent as JSON
+const seatRecordSchema = z.record(z.string().regex(/^\d+$/), z.number().int());
+
+const pointSchema = z.object({ x: z.number(), y: z.number() });
+
+// zod only infers required fields when strictNullChecks is on, which the app
+// build leaves off, so schemas are given their type here rather than inferred
+const typed = <T>(schema: z.ZodTypeAny) => schema as z.ZodType<T>;
+
+// `satisfies` keeps each shape in step with its type: a field added to the
+// type but not here would otherwise be silently stripped from messages
+const playerShape = {
+  id: z.number().int(),
+  name: z.string(),
+  colorIndex: z.number().int(),
+  isImposter: z.boolean().optional(),
+  isOnline: z.boolean().optional(),
+  socketId: z.string().optional(),
+  clientId: z.string().optional(),
+  isReady: z.boolean().optional()
+} satisfies Record<keyof Player, z.ZodTypeAny>;
+
+const wordCategoryShape = {
+  name: z.string().max(MAX_CATEGORY_NAME_LENGTH),
+  words: z.array(z.string().max(MAX_WORD_LENGTH)).max(MAX_PACK_WORDS)
+} satisfies Record<keyof WordCategory, z.ZodTypeAny>;
+
+const wordPackShape = {
+  id: z.string().min(1).max(64),
+  name: z.string().max(MAX_PACK_NAME_LENGTH),
+  description: z.string().max(MAX_PACK_DESCRIPTION_LENGTH).optional(),
+  difficulty: z.enum(['easy', 'medium', 'hard']),
+  locale: z.string().max(35),
+  tags: z.array(z.string().max(MAX_CATEGORY_NAME_LENGTH)).max(10),
+  categories: z.array(typed<WordCategory>(z.object(wordCategoryShape))).max(MAX_PACK_WORDS)
+} satisfies Record<keyof WordPack, z.ZodTypeAny>;
+
+// Also checks packs imported from a file, see lib/custom-word-packs.ts
+export const wordPackSchema = typed<WordPack>(z.object(wordPackShape));
+
+const gameConfigShape = {
+  playerCount: z.number().int().min(0),
+  roundCount: z.number().int().min(1),
+  isMultiplayer: z.boolean().optional(),
+  isHost: z.boolean().optional(),
+  roomId: z.string().optional(),
+  timerEnabled: z.boolean().optional(),
+  timerDuration: z.number().optional(),
+  discussionDuration: z.number().optional(),
+  imposterCount: z.number().int().min(1).max(MAX_IMPOSTERS).optional(),
+  impostersKnowEachOther: z.boolean().optional(),
+  wordPackId: z.string().optional(),
+  customWordPack: wordPackSchema.optional(),
+  categoryHint: z.boolean().optional()
+} satisfies Record<keyof GameConfig, z.ZodTypeAny>;
+
+const strokeShape = {
+  id: z.string().optional(),
+  points: z.array(pointSchema),
+  color: z.string(),
+  width: z.number(),
+  playerId: z.number().int(),
+  timestamp: z.number().optional()
+} satisfies Record<keyof Stroke, z.ZodTypeAny>;
+
+const drawingActionShape = {
+  type: z.enum(['start', 'move', 'end', 'remove']),
+  points: z.array(z.number().int()).optional(),
+  playerId: z.number().int(),
+  color: z.string(),
+  width: z.number().positive(),
+  strokeId: z.string().min(1),
+  seq: z.number().int().min(0)
+} satisfies Record<keyof DrawingAction, z.ZodTypeAny>;
+
+const chatMessageShape = {
+  id: z.string(),
+  playerId: z.number().int(),
+  text: z.string().max(MAX_CHAT_MESSAGE_LENGTH),
+  timestamp: z.number()
+} satisfies Record<keyof ChatMessage, z.ZodTypeAny>;
+
+const playerSchema = typed<Player>(z.object(playerShape));
+const strokeSchema = typed<Stroke>(z.object(strokeShape));
+
+const gameRoomShape = {
+  id: z.string(),
+  hostId: z.string(),
+  players: z.array(playerSchema),
+  gameConfig: z.object(gameConfigShape).optional(),
+  currentPhase: z.enum(['setup', 'playerConfig', 'lobby', 'wordReveal', 'drawing', 'discussion', 'voting', 'imposterGuess', 'results']),
+  secretWord: z.string().optional(),
+  secretCategory: z.string().optional(),
+  playedWords: z.array(z.string()).optional(),
+  strokes: z.array(strokeSchema),
+  votes: seatRecordSchema.optional(),
+  ballots: seatRecordSchema.optional(),
+  votedPlayerIds: z.array(z.number().int()).optional(),
+  lockedPlayerIds: z.array(z.number().int()).optional(),
+  guessingPlayerIds: z.array(z.number().int()).optional(),
+  wordGuesses: z.record(z.string().regex(/^\d+$/), z.string().max(MAX_GUESS_LENGTH)).optional(),
+  roleAcks: z.array(z.number().int()).optional(),
+  timerEnabled: z.boolean().optional(),
+  timerDuration: z.number().optional(),
+  discussionDuration: z.number().optional(),
+  chat: z.array(typed<ChatMessage>(z.object(chatMessageShape))).optional(),
+  notes: z.string().max(MAX_NOTES_LENGTH).optional(),
+  imposterCount: z.number().int().min(1).max(MAX_IMPOSTERS).optional(),
+  currentRound: z.number().int(),
+  currentTurn: z.number().int(),
+  startingPlayerOffset: z.number().int(),
+  version: z.number().int()
+} satisfies Record<keyof GameRoom, z.ZodTypeAny>;
+
+const gameRoomObject = z.object(gameRoomShape);
+const gameRoomSchema = typed<GameRoom>(gameRoomObject);
+const gameRoomPatchSchema = typed<GameRoomPatch>(gameRoomObject.omit({ id: true, version: true }).partial());
+
+const gameStateSnapshotSchema = typed<GameStateSnapshot>(z.object({
+  roomId: roomIdSchema,
+  state: gameRoomSchema
+}));
+
+const gameStateDeltaSchema = typed<GameStateDelta>(z.object({
+  roomId: roomIdSchema,
+  version: z.number().int(),
+  patch: gameRoomPatchSchema
+}));
+
+const roomDrawingActionSchema = typed<DrawingAction & { roomId: string }>(
+  z.object({ ...drawingActionShape, roomId: roomIdSchema })
+);
+
+const roomMembershipSchema = z.object({
+  roomId: roomIdSchema,
+  clientId: z.string(),
+  // Seated clients only, spectators are not counted
+  totalPlayers: z.number().int(),
+  isSpectator: z.boolean().optional()
+});
+
+const clientPresenceSchema = z.object({ roomId: roomIdSchema, clientId: z.string() });
+
+const roomEventSchema = z.object({ roomId: roomIdSchema, senderId: z.string().optional() });
+
+const roomTurnSchema = z.object({
+  roomId: roomIdSchema,
+  phase: z.enum(TIMED_PHASES),
+  round: z.number().int(),
+  turn: z.number().int(),
+  drawerId: z.number().int().optional()
+});
+
+// Payload schema of every event except the requests above that answer with
+// an acknowledgement. Every room event must have one.
+export const EVENT_SCHEMAS = {
+  [SERVER_EVENTS.leaveRoom]: roomIdSchema.optional(),
+  [SERVER_EVENTS.drawingAction]: roomDrawingActionSchema,
+  [SERVER_EVENTS.drawingUpdate]: roomDrawingActionSchema,
+  [SERVER_EVENTS.playerJoined]: roomMembershipSchema,
+  [SERVER_EVENTS.playerLeft]: roomMembershipSchema,
+  [SERVER_EVENTS.session]: z.object({
+    clientId: z.string(),
+    roomId: roomIdSchema.nullable(),
+    isSpectator: z.boolean().optional()
+  }),
+  [SERVER_EVENTS.playerDisconnected]: clientPresenceSchema,
+  [SERVER_EVENTS.playerReconnected]: clientPresenceSchema,
+  [SERVER_EVENTS.gameStateSnapshot]: gameStateSnapshotSchema,
+  [SERVER_EVENTS.gameStateDelta]: gameStateDeltaSchema,
+  [SERVER_EVENTS.requestGameState]: z.object({ roomId: roomIdSchema }),
+  [SERVER_EVENTS.roomExpired]: z.object({ roomId: roomIdSchema, reason: z.enum(ROOM_EXPIRY_REASONS) }),
+  [SERVER_EVENTS.kickPlayer]: z.object({ roomId: roomIdSchema, clientId: z.string(), ban: z.boolean() }),
+  [SERVER_EVENTS.lockRoom]: z.object({ roomId: roomIdSchema, locked: z.boolean() }),
+  [SERVER_EVENTS.transferHost]: clientPresenceSchema,
+  [SERVER_EVENTS.playerKicked]: z.object({ roomId: roomIdSchema, clientId: z.string(), banned: z.boolean() }),
+  [SERVER_EVENTS.roomLocked]: z.object({ roomId: roomIdSchema, locked: z.boolean() }),
+  [SERVER_EVENTS.hostChanged]: z.object({ roomId: roomIdSchema, hostId: z.string(), previousHostId: z.string() }),
+  // Sent when a timed turn starts, and to anyone arriving during one.
+  // `serverTime` is when it was sent, for clients to work out the offset
+  // between their clock and the server's.
+  [SERVER_EVENTS.turnTimer]: roomTurnSchema.extend({ deadline: z.number(), serverTime: z.number() }),
+  [SERVER_EVENTS.turnExpired]: roomTurnSchema,
+  'player-profile': roomEventSchema.extend({ name: z.string().trim().min(1).max(MAX_NAME_LENGTH) }),
+  'player-ready': roomEventSchema.extend({ isReady: z.boolean() }),
+  'player-role-ack': roomEventSchema,
+  'player-turn-complete': roomEventSchema.extend({
+    round: z.number().int(),
+    turn: z.number().int(),
+    strokes: z.array(strokeSchema)
+  }),
+  'player-chat': roomEventSchema.extend({ text: z.string().min(1).max(MAX_CHAT_MESSAGE_LENGTH) }),
+  'player-vote': roomEventSchema.extend({ voteFor: z.number().int(), lockIn: z.boolean() }),
+  'player-word-guess': roomEventSchema.extend({ guess: z.string().min(1).max(MAX_GUESS_LENGTH) }),
+} satisfies Record<string, z.ZodTypeAny> & Record<RoomEvent, z.ZodTypeAny>;
+
+export type ProtocolEvent = keyof typeof EVENT_SCHEMAS;
+export type EventPayload<E extends ProtocolEvent> = z.infer<typeof EVENT_SCHEMAS[E]>;
+
+export type RoomEventData = z.infer<typeof roomEventSchema>;
+export type SessionInfo = EventPayload<'session'>;
+export type RoomMembershipData = EventPayload<'player-joined'>;
+export type ClientPresenceData = EventPayload<'player-disconnected'>;
+export type RoomExpiredData = EventPayload<'room-expired'>;
+export type PlayerKickedData = EventPayload<'player-kicked'>;
+export type RoomLockedData = EventPayload<'room-locked'>;
+export type HostChangedData = EventPayload<'host-changed'>;
+export type TurnTimerData = EventPayload<'turn-timer'>;
+export type TurnExpiredData = EventPayload<'turn-expired'>;
+export type RoomDrawingAction = EventPayload<'drawing-action'>;
+export type PlayerProfileData = EventPayload<'player-profile'>;
+export type PlayerReadyData = EventPayload<'player-ready'>;
+export type TurnCompleteData = EventPayload<'player-turn-complete'>;
+export type PlayerChatData = EventPayload<'player-chat'>;
+export type PlayerVoteData = EventPayload<'player-vote'>;
+export type PlayerWordGuessData = EventPayload<'player-word-guess'>;
+
+export const isProtocolEvent = (event: string): event is ProtocolEvent =>
+  Object.prototype.hasOwnProperty.call(EVENT_SCHEMAS, event);
+
+// Check a received payload, logging and returning null when it is malformed
+export const parsePayload = <E extends ProtocolEvent>(event: E, data: unknown): EventPayload<E> | null => {
+  const schema = EVENT_SCHEMAS[event] as z.ZodType<EventPayload<E>>;
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue => `${issue.path.join('.') || 'payload'}: ${issue.message}`);
+    console.warn(`[Protocol] Rejected malformed ${event}: ${issues.join('; ')}`);
+    return null;
+  }
+  return result.data;
+};
+
+// The parts of a socket the helpers below need. socket.io sockets on either
+// side and the mock socket all fit.
+export interface EventSocket {
+  on(event: string, listener: (data: unknown) => void): unknown;
+  off(event: string, listener: (data: unknown) => void): unknown;
+  emit(event: string, ...args: unknown[]): unknown;
+}
+
+// Anything events can be sent through, including socket.io broadcasts
+export interface EventSender {
+  emit(event: string, ...args: unknown[]): unknown;
+}
+
+export const emitEvent = <E extends ProtocolEvent>(target: EventSender, event: E, payload: EventPayload<E>) => {
+  target.emit(event, payload);
+};
+
+// Listen for an event, only passing on payloads that match its schema.
+// Returns a function that removes the listener again.
+export const onEvent = <E extends ProtocolEvent>(
+  socket: EventSocket,
+  event: E,
+  handler: (payload: EventPayload<E>) => void
+): (() => void) => {
+  const listener = (data: unknown) => {
+    const payload = parsePayload(event, data);
+    if (payload !== null) handler(payload);
+  };
+  socket.on(event, listener);
+  return () => {
+    socket.off(event, listener);
+  };
+};
@@ -0,0 +1,70 @@
+import { MAX_ROOM_CLIENTS, RoomListing, RoomVisibility } from './protocol';
+import { getSeatedClients, getSpectatorCount, RoomMembers } from './spectators';
+import { GameRoom } from '../types/game';
+
+// Public rooms are listed in the room browser so drop-in players can pick
+// one without being told a code. Private rooms are only reachable by code
+// and can ask for a passphrase as well.
+
+export interface RoomAccess {
+  visibility: RoomVisibility;
+  // Only ever set on private rooms
+  passphrase?: string;
+}
+
+const LOBBY_PHASES: GameRoom['currentPhase'][] = ['setup', 'playerConfig', 'lobby'];
+
+// Blank passphrases are treated as no passphrase, and public rooms never
+// have one
+export const normalizeRoomAccess = (access?: Partial<RoomAccess>): RoomAccess => {
+  if (access?.visibility !== 'private') return { visibility: 'public' };
+
+  const passphrase = access.passphrase?.trim();
+  return passphrase ? { visibility: 'private', passphrase } : { visibility: 'private' };
+};
+
+// Whether a client that is not in the room yet may come in
+export const checkPassphrase = (
+  access: RoomAccess,
+  passphrase?: string
+): 'ok' | 'passphrase-required' | 'wrong-passphrase' => {
+  if (!access.passphrase) return 'ok';
+
+  const given = passphrase?.trim();
+  if (!given) return 'passphrase-required';
+  return given === access.passphrase ? 'ok' : 'wrong-passphrase';
+};
+
+interface ListableRoom extends RoomAccess, RoomMembers {
+  id: string;
+  host: string;
+  isLocked?: boolean;
+  gameState?: GameRoom;
+}
+
+// What the room browser shows about a room, or null when it should not be
+// listed. Rooms appear once the host has sent its game settings.
+export const describeRoom = (room: ListableRoom): RoomListing | null => {
+  const state = room.gameState;
+  if (room.visibility !== 'public' || room.isLocked || !state) return null;
+
+  const host = state.players.find(player => player.clientId === room.host);
+  return {
+    roomId: room.id,
+    hostName: host?.name || '',
+    playerCount: getSeatedClients(room).length,
+    maxPlayers: MAX_ROOM_CLIENTS,
+    roundCount: state.gameConfig?.roundCount || 1,
+    timerEnabled: !!state.timerEnabled,
+    timerDuration: state.timerDuration || 0,
+    spectatorCount: getSpectatorCount(room),
+    inProgress: !LOBBY_PHASES.includes(state.currentPhase)
+  };
+};
+
+// Open rooms first, then the busiest
+export const sortRoomListings = (listings: RoomListing[]): RoomListing[] => (
+  [...listings].sort((a, b) => (
+    Number(a.inProgress) - Number(b.inProgress) || b.playerCount - a.playerCount
+  ))
+);
@@ -0,0 +1,70 @@
+// Rooms are closed once nobody has used them for a while, or once they reach
+// their maximum age, so rooms left behind by crashed tabs or abandoned games
+// do not pile up and cannot be joined.
+
+export interface RoomLifetime {
+  // Close a room after this long without any activity
+  idleTimeoutMs: number;
+  // Close a room this long after it was created, however busy it is
+  maxAgeMs: number;
+}
+
+export const DEFAULT_ROOM_LIFETIME: RoomLifetime = {
+  idleTimeoutMs: 30 * 60 * 1000,
+  maxAgeMs: 12 * 60 * 60 * 1000
+};
+
+// How long the id of a closed room is remembered, so trying to join it says
+// "expired" rather than "not found"
+export const EXPIRED_ROOM_MEMORY_MS = 24 * 60 * 60 * 1000;
+
+// How often servers look for rooms to close
+export const ROOM_SWEEP_INTERVAL_MS = 60 * 1000;
+
+// Activity is recorded at most this often, so busy rooms stay cheap to track
+const ACTIVITY_RESOLUTION_MS = 10 * 1000;
+
+// Rooms also close as soon as the last player leaves, even with spectators
+// still watching ('abandoned')
+export const ROOM_EXPIRY_REASONS = ['idle', 'max-age', 'abandoned'] as const;
+export type RoomExpiryReason = typeof ROOM_EXPIRY_REASONS[number];
+
+export interface RoomTimestamps {
+  createdAt: number;
+  lastActivityAt: number;
+}
+
+export const normalizeLifetime = (lifetime: Partial<RoomLifetime>): RoomLifetime => ({
+  idleTimeoutMs: lifetime.idleTimeoutMs && lifetime.idleTimeoutMs > 0
+    ? lifetime.idleTimeoutMs
+    : DEFAULT_ROOM_LIFETIME.idleTimeoutMs,
+  maxAgeMs: lifetime.maxAgeMs && lifetime.maxAgeMs > 0
+    ? lifetime.maxAgeMs
+    : DEFAULT_ROOM_LIFETIME.maxAgeMs
+});
+
+// Why a room should be closed, or null while it is still live
+export const getRoomExpiry = (
+  room: RoomTimestamps,
+  lifetime: RoomLifetime,
+  now = Date.now()
+): RoomExpiryReason | null => {
+  if (now - room.createdAt >= lifetime.maxAgeMs) return 'max-age';
+  if (now - room.lastActivityAt >= lifetime.idleTimeoutMs) return 'idle';
+  return null;
+};
+
+// Mark a room as used. Returns false when the recorded time was recent
+// enough to leave alone, so callers can skip persisting it.
+export const recordRoomActivity = (room: RoomTimestamps, now = Date.now()): boolean => {
+  if (now - room.lastActivityAt < ACTIVITY_RESOLUTION_MS) return false;
+  room.lastActivityAt = now;
+  return true;
+};
+
+// Drop remembered room ids that are too old to matter
+export const pruneExpiredRooms = (expiredRooms: Map<string, number>, now = Date.now()) => {
+  for (const [roomId, expiredAt] of expiredRooms) {
+    if (now - expiredAt > EXPIRED_ROOM_MEMORY_MS) expiredRooms.delete(roomId);
+  }
+};
@@ -0,0 +1,101 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { GameConfig, GameRoom } from '../types/game';
+import { createGameRoom } from './game-state';
+import { redactGameState, redactGameStateDelta } from './secrets';
+
+const HOST = 'user-host';
+const INNOCENT = 'user-innocent';
+const IMPOSTER = 'user-imposter';
+const OTHER_IMPOSTER = 'user-other-imposter';
+
+const createVotingState = (config: Partial<GameConfig> = {}): GameRoom => ({
+  ...createGameRoom('ROOM42', HOST, { playerCount: 4, roundCount: 2, ...config }),
+  players: [
+    { id: 1, name: 'Asha', colorIndex: 1, clientId: HOST },
+    { id: 2, name: 'Ravi', colorIndex: 2, clientId: INNOCENT },
+    { id: 3, name: 'Meera', colorIndex: 3, clientId: IMPOSTER, isImposter: true },
+    { id: 4, name: 'Kiran', colorIndex: 4, clientId: OTHER_IMPOSTER, isImposter: true }
+  ],
+  currentPhase: 'voting',
+  secretWord: 'Mango',
+  secretCategory: 'Fruit',
+  ballots: { 1: 3, 2: 3, 3: 2 }
+});
+
+const getImposterIds = (state: GameRoom) => state.players.filter(p => p.isImposter).map(p => p.id);
+
+describe('redactGameState', () => {
+  it('gives the host the whole state', () => {
+    const state = createVotingState();
+
+    assert.equal(redactGameState(state, HOST), state);
+  });
+
+  it('gives innocents the word but not the imposters or other ballots', () => {
+    const redacted = redactGameState(createVotingState(), INNOCENT);
+
+    assert.equal(redacted.secretWord, 'Mango');
+    assert.equal(redacted.secretCategory, 'Fruit');
+    assert.deepEqual(getImposterIds(redacted), []);
+    assert.deepEqual(redacted.ballots, { 2: 3 });
+  });
+
+  it('keeps the word from imposters, and the category unless it is a hint', () => {
+    assert.equal(redactGameState(createVotingState(), IMPOSTER).secretWord, '');
+    assert.equal(redactGameState(createVotingState(), IMPOSTER).secretCategory, '');
+    assert.equal(redactGameState(createVotingState({ categoryHint: true }), IMPOSTER).secretCategory, 'Fruit');
+  });
+
+  it('only shows imposters each other when the game allows it', () => {
+    assert.deepEqual(getImposterIds(redactGameState(createVotingState(), IMPOSTER)), [3]);
+    assert.deepEqual(getImposterIds(redactGameState(createVotingState({ impostersKnowEachOther: true }), IMPOSTER)), [3, 4]);
+  });
+
+  it('hides everything from a client without a seat', () => {
+    const redacted = redactGameState(createVotingState(), 'user-spectator');
+
+    assert.equal(redacted.secretWord, '');
+    assert.deepEqual(getImposterIds(redacted), []);
+    assert.deepEqual(redacted.ballots, {});
+  });
+
+  it('shows everything once the results are in', () => {
+    const state = { ...createVotingState(), currentPhase: 'results' as const };
+
+    assert.equal(redactGameState(state, INNOCENT), state);
+  });
+});
+
+describe('redactGameStateDelta', () => {
+  it('redacts the players and word a change deals', () => {
+    const state = createVotingState();
+    const delta = redactGameStateDelta({ roomId: 'ROOM42', version: 1, patch: { players: state.players } }, state, IMPOSTER);
+
+    assert.deepEqual(delta.patch.players?.filter(p => p.isImposter).map(p => p.id), [3]);
+    assert.equal(delta.patch.secretWord, '');
+  });
+
+  it('only sends a voter their own ballot', () => {
+    const state = createVotingState();
+    const delta = redactGameStateDelta({ roomId: 'ROOM42', version: 1, patch: { ballots: state.ballots } }, state, INNOCENT);
+
+    assert.deepEqual(delta.patch.ballots, { 2: 3 });
+  });
+
+  it('sends what was held back when the results are shown', () => {
+    const state = { ...createVotingState(), currentPhase: 'results' as const };
+    const delta = redactGameStateDelta({ roomId: 'ROOM42', version: 1, patch: { currentPhase: 'results' } }, state, IMPOSTER);
+
+    assert.equal(delta.patch.secretWord, 'Mango');
+    assert.deepEqual(delta.patch.ballots, state.ballots);
+    assert.deepEqual(getImposterIds({ ...state, players: delta.patch.players || [] }), [3, 4]);
+  });
+
+  it('passes the host every change as it is', () => {
+    const state = createVotingState();
+    const delta = { roomId: 'ROOM42', version: 1, patch: { ballots: state.ballots } };
+
+    assert.equal(redactGameStateDelta(delta, state, HOST), delta);
+  });
+});
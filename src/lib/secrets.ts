@@ -0,0 +1,87 @@
+import { GameRoom, GameStateDelta, Player } from '../types/game';
+
+// The host holds the full game state. Before it goes out to other clients,
+// the server strips whatever that client is not allowed to know yet: only
+// innocents get the secret word (imposters may get its category as a hint),
+// and nobody learns who the imposters are or who voted for whom until the
+// results are shown. Imposters who play knowing each other are the
+// exception: they see the other imposters.
+
+const isRevealed = (state: GameRoom) => state.currentPhase === 'results';
+
+const canSeeEverything = (state: GameRoom, clientId: string) => (
+  state.hostId === clientId || isRevealed(state)
+);
+
+// Every player keeps their own role, everyone else's is hidden
+const redactPlayers = (state: GameRoom, players: Player[], clientId: string): Player[] => {
+  const recipient = state.players.find(p => p.clientId === clientId);
+  const knowsImposters = !!(recipient?.isImposter && state.gameConfig?.impostersKnowEachOther);
+
+  return players.map(player => (
+    player.clientId === clientId || (knowsImposters && player.isImposter)
+      ? player
+      : { ...player, isImposter: undefined }
+  ));
+};
+
+// Players only see their own ballot while voting is open
+const redactBallots = (state: GameRoom, ballots: Record<number, number>, clientId: string) => {
+  const player = state.players.find(p => p.clientId === clientId);
+  return player && ballots[player.id] !== undefined ? { [player.id]: ballots[player.id] } : {};
+};
+
+const redactSecretWord = (state: GameRoom, clientId: string): string => {
+  const player = state.players.find(p => p.clientId === clientId);
+  return player && !player.isImposter ? state.secretWord || '' : '';
+};
+
+const redactSecretCategory = (state: GameRoom, clientId: string): string => {
+  const player = state.players.find(p => p.clientId === clientId);
+  const canSeeCategory = player && (!player.isImposter || state.gameConfig?.categoryHint);
+  return canSeeCategory ? state.secretCategory || '' : '';
+};
+
+export const redactGameState = (state: GameRoom, clientId: string): GameRoom => {
+  if (canSeeEverything(state, clientId)) return state;
+
+  return {
+    ...state,
+    players: redactPlayers(state, state.players, clientId),
+    secretWord: redactSecretWord(state, clientId),
+    secretCategory: redactSecretCategory(state, clientId),
+    ballots: redactBallots(state, state.ballots || {}, clientId)
+  };
+};
+
+// `state` is the full state after the delta was applied. Entering results
+// sends along everything that was held back until now.
+export const redactGameStateDelta = (
+  delta: GameStateDelta,
+  state: GameRoom,
+  clientId: string
+): GameStateDelta => {
+  if (state.hostId === clientId) return delta;
+
+  if (isRevealed(state)) {
+    if (delta.patch.currentPhase !== 'results') return delta;
+    return {
+      ...delta,
+      patch: {
+        ...delta.patch,
+        players: state.players,
+        secretWord: state.secretWord,
+        secretCategory: state.secretCategory,
+        ballots: state.ballots
+      }
+    };
+  }
+
+  const patch = { ...delta.patch };
+  if (patch.players) patch.players = redactPlayers(state, patch.players, clientId);
+  if ('secretWord' in patch || patch.players) patch.secretWord = redactSecretWord(state, clientId);
+  if ('secretCategory' in patch || patch.players) patch.secretCategory = redactSecretCategory(state, clientId);
+  if (patch.ballots) patch.ballots = redactBallots(state, patch.ballots, clientId);
+
+  return { ...delta, patch };
+};
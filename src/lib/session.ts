@@ -0,0 +1,42 @@
+// Per-tab session used to reclaim a multiplayer seat after a refresh or a
+// dropped connection. Kept in sessionStorage rather than localStorage so that
+// several tabs of one browser still count as separate players.
+
+export interface ClientSession {
+  // Secret presented to the server on connect
+  token: string;
+  // Public id the server knows us by, once it has told us
+  clientId?: string;
+}
+
+const SESSION_KEY = 'kaunArtistSession';
+
+const generateToken = (): string => {
+  const bytes = new Uint8Array(16);
+  crypto.getRandomValues(bytes);
+  return Array.from(bytes, byte => byte.toString(16).padStart(2, '0')).join('');
+};
+
+export const saveSession = (session: ClientSession) => {
+  try {
+    sessionStorage.setItem(SESSION_KEY, JSON.stringify(session));
+  } catch (err) {
+    console.error('[Session] Error saving session', err);
+  }
+};
+
+export const getSession = (): ClientSession => {
+  try {
+    const stored = sessionStorage.getItem(SESSION_KEY);
+    if (stored) {
+      const session = JSON.parse(stored);
+      if (typeof session?.token === 'string') return session;
+    }
+  } catch (err) {
+    console.error('[Session] Error loading session', err);
+  }
+
+  const session = { token: generateToken() };
+  saveSession(session);
+  return session;
+};
@@ -1,26 +1,166 @@
+import { createCrossTabTransport, CrossTabTransport, TransportMessage } from './mock-transport';
+import { MockNetwork, NetworkConditions, normalizeConditions } from './mock-network';
+import { applyDelta, applyPatch, isCurrentDrawer } from './game-state';
+import { canTransferHost, migrateHost, withHost } from './moderation';
+import { redactGameState, redactGameStateDelta } from './secrets';
+import {
+  ClientPresenceData,
+  EventPayload,
+  JoinRoomResult,
+  MAX_ROOM_CLIENTS,
+  MAX_ROOM_SPECTATORS,
+  RoomListing,
+  RoomMembershipData,
+  SEAT_GRACE_PERIOD_MS,
+  SERVER_EVENTS
+} from './protocol';
+import {
+  checkPassphrase,
+  describeRoom,
+  normalizeRoomAccess,
+  RoomAccess,
+  sortRoomListings
+} from './room-directory';
+import { getSeatedClients, getSpectatorCount, isSpectator, RoomMembers } from './spectators';
+import {
+  getTurnDeadline,
+  getTurnTimeoutPatch,
+  recordTurnStroke,
+  TurnDeadline,
+  TurnRef,
+  TurnStrokes
+} from './turn-timer';
+import {
+  getRoomExpiry,
+  normalizeLifetime,
+  pruneExpiredRooms,
+  recordRoomActivity,
+  RoomLifetime,
+  ROOM_SWEEP_INTERVAL_MS
+} from './room-lifecycle';
+import { DrawingAction, GameRoom, GameStateDelta, GameStateSnapshot } from '@/types/game';
 
-interface RoomData {
+interface RoomData extends RoomAccess, RoomMembers {
   id: string;
-  clients: string[];
   host: string;
-  gameState?: any;
+  // Clients whose tab went away, by the time it happened
+  disconnectedAt?: Record<string, number>;
+  gameState?: GameRoom;
+  // Clock of the timed drawing turn being played
+  turnDeadline?: TurnDeadline;
+  // What the drawer has streamed this turn, to end the turn with if it runs
+  // out of time
+  turnStrokes?: TurnStrokes;
+  createdAt: number;
+  lastActivityAt: number;
+  // Clients the host banned, who cannot join again
+  banned?: string[];
+  // A locked room only lets its current clients back in
+  isLocked?: boolean;
 }
 
+export interface ForceDisconnectOptions {
+  // Drop the connection when the client is about to receive this event
+  // (the event is lost), instead of after `delayMs`
+  afterEvent?: string;
+  delayMs?: number;
+  // Reconnect after this long; stays offline when left out
+  durationMs?: number;
+}
+
+// Room-wide notices carry the clients they are for, since some of them may
+// already be out of the room (closed, or kicked) by the time a socket looks
+export const ROOM_NOTICES = [
+  SERVER_EVENTS.roomExpired,
+  SERVER_EVENTS.playerKicked,
+  SERVER_EVENTS.roomLocked,
+  SERVER_EVENTS.hostChanged,
+  SERVER_EVENTS.turnTimer,
+  SERVER_EVENTS.turnExpired
+] as const;
+
+type RoomNotice = typeof ROOM_NOTICES[number];
+
+// What the server sends on its own event bus, which every open tab hears.
+// Sockets listen on it and deliver what is meant for their client.
+export type MockServerEvents = {
+  [E in RoomNotice]: EventPayload<E> & { clients: string[] };
+} & {
+  'player-joined': RoomMembershipData;
+  'player-left': RoomMembershipData;
+  'player-disconnected': ClientPresenceData;
+  'player-reconnected': ClientPresenceData;
+  'network-conditions': NetworkConditions;
+  'room-lifetime': RoomLifetime;
+  'force-disconnect': ForceDisconnectOptions & { clientId: string };
+  'client-message': { clientId: string; event: string; data: unknown };
+  'room-broadcast': { roomId: string; event: string; data: unknown; senderId?: string };
+};
+
+type MockServerEvent = keyof MockServerEvents;
+type MockServerListener = (data: unknown) => void;
+
+// Acknowledgement callback a socket passes along with a request
+export type MockAck = (data: unknown) => void;
+
+const NETWORK_STORAGE_KEY = 'mockSocketNetwork';
+const LIFETIME_STORAGE_KEY = 'mockSocketRoomLifetime';
+const EXPIRED_ROOMS_STORAGE_KEY = 'mockSocketExpiredRooms';
+
+// How often held seats are checked
+const SEAT_SWEEP_INTERVAL_MS = 5000;
+
 class SocketServer {
   private rooms: Map<string, RoomData>;
   private clientRooms: Map<string, string>;
-  private eventListeners: Map<string, Array<(data: any) => void>>;
-  private callbackRegistry: Map<string, Map<string, (data: any) => void>>;
+  private eventListeners: Map<string, MockServerListener[]>;
+  private callbackRegistry: Map<string, Map<string, MockAck>>;
+  private transport: CrossTabTransport | null;
+  private network: MockNetwork;
+  private lifetime: RoomLifetime;
+  // Ids of closed rooms, by the time they closed
+  private expiredRooms: Map<string, number>;
+  // Room id -> timer ending the drawing turn being played. Turns are timed
+  // by the tab that handled the change starting them, usually the host's.
+  private turnTimers: Map<string, number>;
   
   constructor() {
     this.rooms = new Map();
     this.clientRooms = new Map();
+    this.expiredRooms = new Map();
+    this.turnTimers = new Map();
     this.eventListeners = new Map();
     this.callbackRegistry = new Map();
+    this.network = new MockNetwork();
+    this.network.setConditions(this.loadNetworkConditions());
+    this.lifetime = normalizeLifetime(this.loadStoredJson(LIFETIME_STORAGE_KEY));
     console.log("[MockSocketServer] Initialized");
     
     // Load any persistent rooms on initialization
     this.loadPersistentRooms();
+    
+    // Share emitted events with the server instances in other tabs
+    this.transport = createCrossTabTransport(message => this.handleRemoteMessage(message));
+    
+    // Every tab simulates the same network and closes rooms on the same terms
+    this.on('network-conditions', (conditions: NetworkConditions) => this.network.setConditions(conditions));
+    this.on('room-lifetime', (lifetime: RoomLifetime) => { this.lifetime = lifetime; });
+    
+    // Closed and crashed tabs cannot clean up after themselves, so any open
+    // tab frees seats held for longer than the grace period, ends turns
+    // nobody is timing and closes rooms nobody is using any more
+    if (typeof window !== 'undefined') {
+      window.setInterval(() => this.expireHeldSeats(), SEAT_SWEEP_INTERVAL_MS);
+      window.setInterval(() => this.expireOverdueTurns(), SEAT_SWEEP_INTERVAL_MS);
+      window.setInterval(() => this.expireRooms(), ROOM_SWEEP_INTERVAL_MS);
+    }
+  }
+  
+  // Deliver an event emitted by another tab to our local listeners
+  private handleRemoteMessage({ event, data }: TransportMessage) {
+    // The other tab has already persisted its room changes
+    this.loadPersistentRooms();
+    this.dispatch(event, data);
   }
   
   // Generate a random 6-character room ID
@@ -34,18 +174,28 @@ class SocketServer {
   }
   
   // Create a new room
-  public createRoom(clientId: string): string {
-    const roomId = this.generateRoomId();
+  public createRoom(clientId: string, access?: Partial<RoomAccess>): string {
+    // Other tabs may have changed the rooms since we last looked
+    this.loadPersistentRooms();
+    
+    let roomId = this.generateRoomId();
+    while (this.rooms.has(roomId) || this.expiredRooms.has(roomId)) {
+      roomId = this.generateRoomId();
+    }
     
+    const now = Date.now();
     this.rooms.set(roomId, {
+      ...normalizeRoomAccess(access),
       id: roomId,
       clients: [clientId],
-      host: clientId
+      host: clientId,
+      createdAt: now,
+      lastActivityAt: now
     });
     
     this.clientRooms.set(clientId, roomId);
     
-    console.log(`[MockSocketServer] Room ${roomId} created by client ${clientId}`);
+    console.log(`[MockSocketServer] ${this.rooms.get(roomId)!.visibility} room ${roomId} created by client ${clientId}`);
     
     // Save rooms to localStorage for persistence
     this.saveRoomsToStorage();
@@ -53,49 +203,84 @@ class SocketServer {
     return roomId;
   }
   
-  // Join an existing room
-  public joinRoom(clientId: string, roomId: string): boolean {
+  // Join an existing room, taking a seat or only watching. A room that is
+  // due to close counts as expired even if no tab has swept it yet.
+  public joinRoom(clientId: string, roomId: string, passphrase?: string, spectate = false): JoinRoomResult {
+    this.loadPersistentRooms();
+    
     // First check if the room exists
     if (!this.rooms.has(roomId)) {
-      console.log(`[MockSocketServer] Room ${roomId} does not exist`);
-      return false;
+      const expired = this.expiredRooms.has(roomId);
+      console.log(`[MockSocketServer] Room ${roomId} ${expired ? 'has expired' : 'does not exist'}`);
+      return expired ? 'expired' : 'not-found';
     }
     
-    // Then check if the client is already in the room
     const room = this.rooms.get(roomId)!;
     
+    if (getRoomExpiry(room, this.lifetime)) {
+      console.log(`[MockSocketServer] Room ${roomId} has expired`);
+      return 'expired';
+    }
+    
+    // Then check if the client is already in the room
     if (room.clients.includes(clientId)) {
       console.log(`[MockSocketServer] Client ${clientId} is already in room ${roomId}`);
-      return true;
+      return 'joined';
     }
     
-    // Check if the room is full (max 10 players)
-    if (room.clients.length >= 10) {
-      console.log(`[MockSocketServer] Room ${roomId} is full`);
-      return false;
+    if (room.banned?.includes(clientId)) {
+      console.log(`[MockSocketServer] Client ${clientId} is banned from room ${roomId}`);
+      return 'banned';
+    }
+    
+    if (room.isLocked) {
+      console.log(`[MockSocketServer] Room ${roomId} is locked`);
+      return 'locked';
+    }
+    
+    // Check if the room is full
+    const isFull = spectate
+      ? getSpectatorCount(room) >= MAX_ROOM_SPECTATORS
+      : getSeatedClients(room).length >= MAX_ROOM_CLIENTS;
+    if (isFull) {
+      console.log(`[MockSocketServer] Room ${roomId} has no room for another ${spectate ? 'spectator' : 'player'}`);
+      return 'full';
+    }
+    
+    const access = checkPassphrase(room, passphrase);
+    if (access !== 'ok') {
+      console.log(`[MockSocketServer] Client ${clientId} gave no or the wrong passphrase for room ${roomId}`);
+      return access;
     }
     
     // Add the client to the room
     room.clients.push(clientId);
+    if (spectate) {
+      room.spectators = [...(room.spectators || []), clientId];
+    }
     this.clientRooms.set(clientId, roomId);
+    recordRoomActivity(room);
+    
+    console.log(`[MockSocketServer] Client ${clientId} joined room ${roomId}${spectate ? ' as a spectator' : ''}`);
     
-    console.log(`[MockSocketServer] Client ${clientId} joined room ${roomId}`);
+    // Save updated room state to localStorage before other tabs hear about it
+    this.saveRoomsToStorage();
     
     // Notify other clients in the room
     this.emit('player-joined', {
       roomId,
       clientId,
-      totalPlayers: room.clients.length
+      totalPlayers: getSeatedClients(room).length,
+      isSpectator: spectate
     });
     
-    // Save updated room state to localStorage
-    this.saveRoomsToStorage();
-    
-    return true;
+    return 'joined';
   }
   
   // Leave a room
   public leaveRoom(clientId: string): void {
+    this.loadPersistentRooms();
+    
     const roomId = this.clientRooms.get(clientId);
     
     if (!roomId || !this.rooms.has(roomId)) {
@@ -103,38 +288,290 @@ class SocketServer {
     }
     
     const room = this.rooms.get(roomId)!;
+    const previousHost = room.host;
+    const wasSpectator = isSpectator(room, clientId);
     
     // Remove the client from the room
     room.clients = room.clients.filter(id => id !== clientId);
+    room.spectators = room.spectators?.filter(id => id !== clientId);
     this.clientRooms.delete(clientId);
+    if (room.disconnectedAt) {
+      delete room.disconnectedAt[clientId];
+    }
+    recordRoomActivity(room);
     
     console.log(`[MockSocketServer] Client ${clientId} left room ${roomId}`);
     
+    // Once no players are left, remove the room and send any spectators home
+    const seated = getSeatedClients(room);
+    if (seated.length === 0) {
+      this.rooms.delete(roomId);
+      room.clients.forEach(id => this.clientRooms.delete(id));
+      console.log(`[MockSocketServer] Room ${roomId} removed (no players left)`);
+      this.saveRoomsToStorage();
+      this.clearTurnTimer(roomId);
+      
+      if (room.clients.length > 0) {
+        this.notifyRoom(room, SERVER_EVENTS.roomExpired, { roomId, reason: 'abandoned' });
+      }
+      return;
+    }
+    
+    // If the host left, hand the game over to a new host
+    if (room.host === clientId) {
+      room.host = seated[0];
+      console.log(`[MockSocketServer] New host for room ${roomId}: ${room.host}`);
+      if (room.gameState) {
+        room.gameState = migrateHost(room.gameState, clientId, room.host);
+      } else {
+        console.warn(`[MockSocketServer] Room ${roomId} has no game state to hand over`);
+      }
+    }
+    
+    // Save updated room state to localStorage before other tabs hear about it
+    this.saveRoomsToStorage();
+    
+    // The new host takes over the game before anyone hears who left, so it
+    // is already in charge of what happens to their seat
+    const state = room.gameState;
+    if (room.host !== previousHost) {
+      this.notifyRoom(room, SERVER_EVENTS.hostChanged, { roomId, hostId: room.host, previousHostId: previousHost });
+      if (state) {
+        this.sendToOthers(roomId, null, SERVER_EVENTS.gameStateSnapshot, (recipient) => ({
+          roomId,
+          state: redactGameState(state, recipient)
+        }));
+      }
+      this.syncTurnTimer(room);
+    }
+    
     // Notify other clients
     this.emit('player-left', {
       roomId,
       clientId,
-      totalPlayers: room.clients.length
+      totalPlayers: seated.length,
+      isSpectator: wasSpectator
     });
+  }
+  
+  // Let the host remove another client, and optionally keep them out for good
+  public kickClient(hostId: string, roomId: string, targetId: string, ban: boolean): boolean {
+    this.loadPersistentRooms();
     
-    // If the room is now empty, remove it
-    if (room.clients.length === 0) {
-      this.rooms.delete(roomId);
-      console.log(`[MockSocketServer] Room ${roomId} removed (empty)`);
-    } 
-    // If the host left, assign a new host
-    else if (room.host === clientId && room.clients.length > 0) {
-      room.host = room.clients[0];
-      console.log(`[MockSocketServer] New host for room ${roomId}: ${room.host}`);
+    const room = this.rooms.get(roomId);
+    if (!room || room.host !== hostId || targetId === hostId || !room.clients.includes(targetId)) {
+      return false;
+    }
+    
+    if (ban) {
+      room.banned = [...(room.banned || []).filter(id => id !== targetId), targetId];
+      this.saveRoomsToStorage();
+    }
+    console.log(`[MockSocketServer] Host ${hostId} ${ban ? 'banned' : 'kicked'} client ${targetId} from room ${roomId}`);
+    
+    // Everyone hears about it, including the client being removed
+    this.notifyRoom(room, SERVER_EVENTS.playerKicked, { roomId, clientId: targetId, banned: ban });
+    this.leaveRoom(targetId);
+    return true;
+  }
+  
+  public setRoomLocked(hostId: string, roomId: string, locked: boolean): boolean {
+    this.loadPersistentRooms();
+    
+    const room = this.rooms.get(roomId);
+    if (!room || room.host !== hostId) {
+      return false;
     }
     
-    // Save updated room state to localStorage
+    room.isLocked = locked;
+    console.log(`[MockSocketServer] Room ${roomId} ${locked ? 'locked' : 'unlocked'}`);
     this.saveRoomsToStorage();
+    
+    this.notifyRoom(room, SERVER_EVENTS.roomLocked, { roomId, locked });
+    return true;
+  }
+  
+  // Hand the room to another connected client, between games only. The
+  // caller sends the game state under its new host out to the room.
+  public transferHost(hostId: string, roomId: string, targetId: string): boolean {
+    this.loadPersistentRooms();
+    
+    const room = this.rooms.get(roomId);
+    if (
+      !room ||
+      room.host !== hostId ||
+      targetId === hostId ||
+      !room.clients.includes(targetId) ||
+      isSpectator(room, targetId) ||
+      room.disconnectedAt?.[targetId] ||
+      !canTransferHost(room.gameState)
+    ) {
+      return false;
+    }
+    
+    room.host = targetId;
+    if (room.gameState) {
+      room.gameState = withHost(room.gameState, targetId);
+    }
+    recordRoomActivity(room);
+    console.log(`[MockSocketServer] Host ${hostId} handed room ${roomId} to ${targetId}`);
+    this.saveRoomsToStorage();
+    
+    this.notifyRoom(room, SERVER_EVENTS.hostChanged, { roomId, hostId: targetId, previousHostId: hostId });
+    return true;
+  }
+  
+  // Public rooms that are open to new players, for the room browser
+  public listPublicRooms(): RoomListing[] {
+    this.loadPersistentRooms();
+    
+    const now = Date.now();
+    const listings: RoomListing[] = [];
+    for (const room of this.rooms.values()) {
+      if (getRoomExpiry(room, this.lifetime, now)) continue;
+      
+      const listing = describeRoom(room);
+      if (listing) listings.push(listing);
+    }
+    return sortRoomListings(listings);
+  }
+  
+  public isSpectator(clientId: string): boolean {
+    const room = this.rooms.get(this.clientRooms.get(clientId) || '');
+    return !!room && isSpectator(room, clientId);
+  }
+  
+  public isRoomLocked(roomId: string): boolean {
+    return !!this.rooms.get(roomId)?.isLocked;
+  }
+  
+  // Tell every client in a room about something, wherever they are, even
+  // if they are on their way out of it
+  private notifyRoom<E extends RoomNotice>(room: RoomData, event: E, data: EventPayload<E>) {
+    this.emit<RoomNotice>(event, { ...data, clients: [...room.clients] });
+  }
+  
+  // Hold the seat of a client whose tab went away
+  public disconnectClient(clientId: string): void {
+    this.loadPersistentRooms();
+    
+    const roomId = this.clientRooms.get(clientId);
+    const room = roomId ? this.rooms.get(roomId) : undefined;
+    if (!room) return;
+    
+    room.disconnectedAt = { ...room.disconnectedAt, [clientId]: Date.now() };
+    console.log(`[MockSocketServer] Holding seat for client ${clientId} in room ${room.id}`);
+    this.saveRoomsToStorage();
+    
+    this.emit('player-disconnected', { roomId: room.id, clientId });
+  }
+  
+  // Reclaim a held seat, returns the room the client is still in
+  public reconnectClient(clientId: string): string | undefined {
+    this.loadPersistentRooms();
+    
+    const roomId = this.clientRooms.get(clientId);
+    const room = roomId ? this.rooms.get(roomId) : undefined;
+    if (!room) return undefined;
+    
+    if (room.disconnectedAt?.[clientId]) {
+      delete room.disconnectedAt[clientId];
+      console.log(`[MockSocketServer] Client ${clientId} reclaimed its seat in room ${room.id}`);
+      this.saveRoomsToStorage();
+      
+      this.emit('player-reconnected', { roomId: room.id, clientId });
+    }
+    
+    return room.id;
   }
   
-  // Check if a room exists
-  public roomExists(roomId: string): boolean {
-    return this.rooms.has(roomId);
+  // Remove clients whose seat has been held for longer than the grace period
+  private expireHeldSeats() {
+    this.loadPersistentRooms();
+    
+    const now = Date.now();
+    for (const room of Array.from(this.rooms.values())) {
+      for (const [clientId, disconnectedAt] of Object.entries(room.disconnectedAt || {})) {
+        if (now - disconnectedAt > SEAT_GRACE_PERIOD_MS) {
+          console.log(`[MockSocketServer] Seat for client ${clientId} expired`);
+          this.leaveRoom(clientId);
+        }
+      }
+    }
+  }
+  
+  // End turns that ran out a while ago, when the tab timing them has gone
+  private expireOverdueTurns() {
+    this.loadPersistentRooms();
+    
+    const now = Date.now();
+    for (const room of Array.from(this.rooms.values())) {
+      const turn = room.turnDeadline;
+      if (turn && !this.turnTimers.has(room.id) && now - turn.deadline > SEAT_SWEEP_INTERVAL_MS) {
+        this.expireTurn(room.id, turn);
+      }
+    }
+  }
+  
+  // Close every room that has been idle or open for too long, and tell the
+  // clients still in it, wherever they are
+  private expireRooms() {
+    this.loadPersistentRooms();
+    
+    const now = Date.now();
+    let changed = false;
+    for (const room of Array.from(this.rooms.values())) {
+      const reason = getRoomExpiry(room, this.lifetime, now);
+      if (!reason) continue;
+      
+      this.rooms.delete(room.id);
+      for (const clientId of room.clients) {
+        this.clientRooms.delete(clientId);
+      }
+      this.expiredRooms.set(room.id, now);
+      changed = true;
+      console.log(`[MockSocketServer] Room ${room.id} expired (${reason})`);
+      this.clearTurnTimer(room.id);
+      
+      this.notifyRoom(room, SERVER_EVENTS.roomExpired, { roomId: room.id, reason });
+    }
+    
+    pruneExpiredRooms(this.expiredRooms, now);
+    if (changed) this.saveRoomsToStorage();
+  }
+  
+  // Note that someone did something in a room, keeping it open. Only saved
+  // when the recorded time actually moves on.
+  private recordActivity(roomId: string) {
+    const room = this.rooms.get(roomId);
+    if (!room || !recordRoomActivity(room)) return;
+    
+    // Other tabs may have changed the rooms since we last looked
+    const lastActivityAt = room.lastActivityAt;
+    this.loadPersistentRooms();
+    const storedRoom = this.rooms.get(roomId);
+    if (storedRoom) {
+      storedRoom.lastActivityAt = lastActivityAt;
+      this.saveRoomsToStorage();
+    }
+  }
+  
+  // Change how long rooms live, for every tab, e.g. from the console:
+  // mockSocketServer.setRoomLifetime({ idleTimeoutMs: 60000 })
+  public setRoomLifetime(lifetime: Partial<RoomLifetime>) {
+    const updated = normalizeLifetime({ ...this.lifetime, ...lifetime });
+    try {
+      localStorage.setItem(LIFETIME_STORAGE_KEY, JSON.stringify(updated));
+    } catch (err) {
+      console.error('[MockSocketServer] Error saving room lifetime', err);
+    }
+    
+    console.log('[MockSocketServer] Room lifetime', updated);
+    this.emit('room-lifetime', updated);
+  }
+  
+  public getRoomLifetime(): RoomLifetime {
+    return { ...this.lifetime };
   }
   
   // Get the room ID for a client
@@ -151,8 +588,204 @@ class SocketServer {
     return [...this.rooms.get(roomId)!.clients];
   }
   
+  // Get the host client of a room
+  public getHost(roomId: string): string | undefined {
+    return this.rooms.get(roomId)?.host;
+  }
+  
+  // Get the latest game state stored for a room
+  public getGameState(roomId: string): GameRoom | undefined {
+    return this.rooms.get(roomId)?.gameState;
+  }
+  
+  // Replace the stored game state; only the room host may do this
+  public setGameState(clientId: string, snapshot: GameStateSnapshot): boolean {
+    this.loadPersistentRooms();
+    
+    const room = this.rooms.get(snapshot?.roomId);
+    if (!room || room.host !== clientId || !snapshot.state) {
+      return false;
+    }
+    
+    room.gameState = snapshot.state;
+    recordRoomActivity(room);
+    this.saveRoomsToStorage();
+    this.syncTurnTimer(room);
+    return true;
+  }
+  
+  // Apply a host delta to the stored game state. A delta that does not
+  // follow the stored version drops the stored copy, and the caller should
+  // ask the host for a fresh snapshot. A delta the server has already
+  // overtaken with a change of its own (a turn ran out) is dropped instead,
+  // and the stored copy comes back as a newer version for the caller to
+  // send to everyone, the host included.
+  public applyGameStateDelta(clientId: string, delta: GameStateDelta): 'rejected' | 'ok' | 'resync' | 'conflict' {
+    this.loadPersistentRooms();
+    
+    const room = this.rooms.get(delta?.roomId);
+    if (!room || room.host !== clientId) {
+      return 'rejected';
+    }
+    
+    if (!room.gameState) {
+      return 'resync';
+    }
+    
+    const result = applyDelta(room.gameState, delta);
+    if (result.status === 'stale') {
+      console.log(`[MockSocketServer] Room ${room.id} dropped host update v${delta.version}, the server changed the game first`);
+      room.gameState = applyPatch(room.gameState, {});
+      this.saveRoomsToStorage();
+      return 'conflict';
+    }
+    
+    room.gameState = result.status === 'gap' ? undefined : result.state;
+    recordRoomActivity(room);
+    this.saveRoomsToStorage();
+    this.syncTurnTimer(room);
+    
+    return result.status === 'gap' ? 'resync' : 'ok';
+  }
+  
+  // Clock of the timed turn being played in a room, for clients arriving
+  // during it
+  public getTurnDeadline(roomId: string): TurnDeadline | undefined {
+    return this.rooms.get(roomId)?.turnDeadline;
+  }
+  
+  private clearTurnTimer(roomId: string) {
+    window.clearTimeout(this.turnTimers.get(roomId));
+    this.turnTimers.delete(roomId);
+  }
+  
+  // Time the drawing turn being played after the game state changed. Only
+  // the server ends timed turns, so every client sees them end at the same
+  // moment.
+  private syncTurnTimer(room: RoomData) {
+    const running = room.turnDeadline;
+    room.turnDeadline = getTurnDeadline(room.gameState, running);
+    if (!room.turnDeadline) {
+      this.clearTurnTimer(room.id);
+    }
+    if (room.turnDeadline === running) return;
+    
+    this.saveRoomsToStorage();
+    if (!room.turnDeadline) return;
+    
+    const started = room.turnDeadline;
+    this.clearTurnTimer(room.id);
+    this.turnTimers.set(room.id, window.setTimeout(() => this.expireTurn(room.id, started), started.deadline - Date.now()));
+    this.notifyRoom(room, SERVER_EVENTS.turnTimer, { roomId: room.id, ...started, serverTime: Date.now() });
+  }
+  
+  // Keep a stroke batch a client relayed, if it is drawing the turn being
+  // played. Saved for whichever tab ends up timing the turn out.
+  public recordTurnStroke(clientId: string, action: DrawingAction): boolean {
+    this.loadPersistentRooms();
+    
+    const room = this.rooms.get(this.clientRooms.get(clientId) || '');
+    if (!room || !isCurrentDrawer(room.gameState, clientId, action.playerId)) return false;
+    
+    const recorded = recordTurnStroke(room.gameState, room.turnStrokes, clientId, action);
+    if (recorded !== room.turnStrokes) {
+      room.turnStrokes = recorded;
+      this.saveRoomsToStorage();
+    }
+    return true;
+  }
+  
+  // End a turn that ran out of time if it is still being played, and send
+  // the change to everyone, the host included
+  private expireTurn(roomId: string, turn: TurnRef) {
+    this.turnTimers.delete(roomId);
+    this.loadPersistentRooms();
+    
+    const room = this.rooms.get(roomId);
+    const patch = room?.gameState && getTurnTimeoutPatch(room.gameState, turn, room.turnStrokes);
+    if (!room || !room.gameState || !patch) return;
+    
+    const state = applyPatch(room.gameState, patch);
+    room.gameState = state;
+    room.turnStrokes = undefined;
+    this.saveRoomsToStorage();
+    console.log(`[MockSocketServer] Turn ${turn.turn + 1} of round ${turn.round} in room ${roomId} ran out of time`);
+    
+    this.notifyRoom(room, SERVER_EVENTS.turnExpired, { roomId, phase: turn.phase, round: turn.round, turn: turn.turn, drawerId: turn.drawerId });
+    const delta: GameStateDelta = { roomId, version: state.version, patch };
+    this.sendToOthers(roomId, null, SERVER_EVENTS.gameStateDelta, (recipient) => (
+      redactGameStateDelta(delta, state, recipient)
+    ));
+    this.syncTurnTimer(room);
+  }
+  
+  // Change the simulated network for every tab, e.g. from the console:
+  // mockSocketServer.setNetworkConditions({ latencyMs: 200, dropRate: 0.1 })
+  public setNetworkConditions(conditions: Partial<NetworkConditions>) {
+    const updated = normalizeConditions({ ...this.network.getConditions(), ...conditions });
+    try {
+      localStorage.setItem(NETWORK_STORAGE_KEY, JSON.stringify(updated));
+    } catch (err) {
+      console.error('[MockSocketServer] Error saving network conditions', err);
+    }
+    
+    console.log('[MockSocketServer] Network conditions', updated);
+    this.emit('network-conditions', updated);
+  }
+  
+  public resetNetworkConditions() {
+    this.setNetworkConditions(normalizeConditions({}));
+  }
+  
+  public getNetworkConditions(): NetworkConditions {
+    return this.network.getConditions();
+  }
+  
+  private loadNetworkConditions(): Partial<NetworkConditions> {
+    return this.loadStoredJson(NETWORK_STORAGE_KEY);
+  }
+  
+  private loadStoredJson<T>(key: string): Partial<T> {
+    try {
+      return JSON.parse(localStorage.getItem(key) || '{}');
+    } catch {
+      return {};
+    }
+  }
+  
+  // Carry one message between a socket and the server over the simulated network
+  public transmit(label: string, deliver: () => void) {
+    this.network.transmit(label, deliver);
+  }
+  
+  // How long acknowledgement callbacks take to come back
+  public getAckDelay(): number {
+    return this.network.sampleDelay();
+  }
+  
+  // Drop a client's connection, in whichever tab it lives
+  public forceDisconnect(clientId: string, options: ForceDisconnectOptions = {}) {
+    console.log(`[MockSocketServer] Forcing client ${clientId} to disconnect`, options);
+    this.emit('force-disconnect', { clientId, ...options });
+  }
+  
+  // Send an event to a single client
+  public sendToClient(clientId: string, event: string, data: unknown) {
+    this.emit('client-message', { clientId, event, data });
+  }
+  
+  // Send an event to every client in a room except the sender, built
+  // separately for each of them. A null sender sends to every client.
+  public sendToOthers(roomId: string, senderId: string | null, event: string, build: (clientId: string) => unknown) {
+    for (const clientId of this.getClientsInRoom(roomId)) {
+      if (clientId !== senderId) {
+        this.sendToClient(clientId, event, build(clientId));
+      }
+    }
+  }
+  
   // Store callback for future execution
-  public registerCallback(clientId: string, event: string, callback: (data: any) => void) {
+  public registerCallback(clientId: string, event: string, callback: MockAck) {
     if (!this.callbackRegistry.has(clientId)) {
       this.callbackRegistry.set(clientId, new Map());
     }
@@ -161,7 +794,7 @@ class SocketServer {
   }
   
   // Execute stored callback
-  public executeCallback(clientId: string, event: string, data: any) {
+  public executeCallback(clientId: string, event: string, data: unknown) {
     if (!this.callbackRegistry.has(clientId) || !this.callbackRegistry.get(clientId)!.has(event)) {
       return;
     }
@@ -173,30 +806,37 @@ class SocketServer {
     this.callbackRegistry.get(clientId)!.delete(event);
   }
   
-  // Broadcast to all clients in a room
-  public broadcastToRoom(roomId: string, event: string, data: any) {
+  // Broadcast to all clients in a room, optionally skipping the sender
+  public broadcastToRoom(roomId: string, event: string, data: unknown, senderId?: string) {
     if (!this.rooms.has(roomId)) {
       return;
     }
     
     console.log(`[MockSocketServer] Broadcasting ${event} to room ${roomId}`, data);
+    this.recordActivity(roomId);
     
-    // Also broadcast on the room-specific event channel
-    this.emit(`room:${roomId}:${event}`, data);
+    // Sockets pick this up and deliver it if they are in the room
+    this.emit('room-broadcast', { roomId, event, data, senderId });
   }
   
   // Register event listener
-  public on(event: string, handler: (data: any) => void) {
+  public on<E extends MockServerEvent>(event: E, handler: (data: MockServerEvents[E]) => void) {
     if (!this.eventListeners.has(event)) {
       this.eventListeners.set(event, []);
     }
     
-    this.eventListeners.get(event)!.push(handler);
+    this.eventListeners.get(event)!.push(handler as MockServerListener);
     return this;
   }
   
-  // Emit event to all listeners
-  public emit(event: string, data: any) {
+  // Emit event to all listeners, in this tab and in any other open tabs
+  public emit<E extends MockServerEvent>(event: E, data: MockServerEvents[E]) {
+    this.dispatch(event, data);
+    this.transport?.post({ event, data });
+  }
+  
+  // Call the listeners registered in this tab
+  private dispatch(event: string, data: unknown) {
     // Handle wildcards for room-specific events
     if (event.includes('*')) {
       const prefix = event.split('*')[0];
@@ -218,11 +858,22 @@ class SocketServer {
       const roomsData = Array.from(this.rooms.entries()).map(([id, room]) => ({
         id,
         clients: room.clients,
+        spectators: room.spectators,
         host: room.host,
-        gameState: room.gameState
+        disconnectedAt: room.disconnectedAt,
+        gameState: room.gameState,
+        turnDeadline: room.turnDeadline,
+        turnStrokes: room.turnStrokes,
+        createdAt: room.createdAt,
+        lastActivityAt: room.lastActivityAt,
+        banned: room.banned,
+        isLocked: room.isLocked,
+        visibility: room.visibility,
+        passphrase: room.passphrase
       }));
       
       localStorage.setItem('mockSocketRooms', JSON.stringify(roomsData));
+      localStorage.setItem(EXPIRED_ROOMS_STORAGE_KEY, JSON.stringify(Object.fromEntries(this.expiredRooms)));
       console.log(`[MockSocketServer] Saved ${roomsData.length} rooms to localStorage`);
     } catch (err) {
       console.error('[MockSocketServer] Error saving rooms to localStorage', err);
@@ -237,16 +888,28 @@ class SocketServer {
       if (storedRooms) {
         const roomsData = JSON.parse(storedRooms);
         
-        // Clear existing rooms first
+        // Clear existing rooms and client mappings first
         this.rooms.clear();
+        this.clientRooms.clear();
         
         // Add stored rooms
         for (const room of roomsData) {
           this.rooms.set(room.id, {
+            // Rooms saved before rooms had a visibility are public
+            ...normalizeRoomAccess(room),
             id: room.id,
             clients: room.clients,
+            spectators: room.spectators,
             host: room.host,
-            gameState: room.gameState
+            disconnectedAt: room.disconnectedAt,
+            gameState: room.gameState,
+            turnDeadline: room.turnDeadline,
+            turnStrokes: room.turnStrokes,
+            // Rooms saved before rooms had timestamps are long abandoned
+            createdAt: room.createdAt || 0,
+            lastActivityAt: room.lastActivityAt || 0,
+            banned: room.banned,
+            isLocked: room.isLocked
           });
           
           // Update client room mappings
@@ -257,6 +920,9 @@ class SocketServer {
         
         console.log(`[MockSocketServer] Loaded persistent rooms: ${Array.from(this.rooms.keys()).join(', ')}`);
       }
+      
+      const expiredRooms: Record<string, number> = this.loadStoredJson(EXPIRED_ROOMS_STORAGE_KEY);
+      this.expiredRooms = new Map(Object.entries(expiredRooms));
     } catch (err) {
       console.error('[MockSocketServer] Error loading rooms from localStorage', err);
     }
@@ -266,7 +932,9 @@ class SocketServer {
   public clearAllRooms() {
     this.rooms.clear();
     this.clientRooms.clear();
+    this.expiredRooms.clear();
     localStorage.removeItem('mockSocketRooms');
+    localStorage.removeItem(EXPIRED_ROOMS_STORAGE_KEY);
     console.log('[MockSocketServer] All rooms cleared');
   }
 }
@@ -274,4 +942,10 @@ class SocketServer {
 // Create a single instance of the server
 const mockSocketServer = new SocketServer();
 
+// Reachable from the browser console in development, to simulate a bad
+// network or a dropped connection
+if (typeof window !== 'undefined' && import.meta.env.DEV) {
+  Object.assign(window, { mockSocketServer });
+}
+
 export default mockSocketServer;
@@ -0,0 +1,23 @@
+// Spectators are room clients without a seat. They get every broadcast and
+// their own redacted copy of the game state like anyone else, which never
+// includes the secret word before the results because they have no player.
+// The server drops their drawing and player actions, so they cannot draw,
+// vote or claim a seat.
+
+export interface RoomMembers {
+  clients: string[];
+  // Clients from `clients` who are only watching
+  spectators?: string[];
+}
+
+export const isSpectator = (room: RoomMembers, clientId: string): boolean => (
+  !!room.spectators?.includes(clientId)
+);
+
+export const getSeatedClients = (room: RoomMembers): string[] => (
+  room.clients.filter(clientId => !isSpectator(room, clientId))
+);
+
+export const getSpectatorCount = (room: RoomMembers): number => (
+  room.clients.length - getSeatedClients(room).length
+);
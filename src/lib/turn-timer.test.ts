@@ -0,0 +1,125 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { DrawingAction, GameRoom } from '../types/game';
+import { createGameRoom } from './game-state';
+import { encodePoints } from './drawing-stream';
+import { removeDepartedPlayer } from './departures';
+import { getTurnDeadline, getTurnTimeoutPatch, recordTurnStroke, TurnRef, TurnStrokes } from './turn-timer';
+
+const DRAWER = 'user-drawer';
+const VIEWER = 'user-viewer';
+
+const createDrawingState = (): GameRoom => ({
+  ...createGameRoom('ROOM42', VIEWER),
+  players: [
+    { id: 1, name: 'Asha', colorIndex: 1, clientId: DRAWER },
+    { id: 2, name: 'Ravi', colorIndex: 2, clientId: VIEWER }
+  ],
+  currentPhase: 'drawing',
+  timerEnabled: true,
+  timerDuration: 30
+});
+
+const batch = (strokeId: string, type: DrawingAction['type'], seq: number, points: number[] = []): DrawingAction => ({
+  type,
+  points,
+  playerId: 1,
+  color: '#FF5252',
+  width: 12,
+  strokeId,
+  seq
+});
+
+const record = (state: GameRoom, clientId: string, actions: DrawingAction[], recorded?: TurnStrokes) => (
+  actions.reduce((current, action) => recordTurnStroke(state, current, clientId, action), recorded)
+);
+
+const expired: TurnRef = { phase: 'drawing', round: 1, turn: 0, drawerId: 1 };
+
+describe('getTurnTimeoutPatch', () => {
+  it('keeps the strokes drawn before a turn runs out', () => {
+    const state = createDrawingState();
+    const recorded = record(state, DRAWER, [
+      batch('a', 'start', 0, encodePoints([{ x: 10, y: 10 }, { x: 20, y: 20 }])),
+      batch('a', 'end', 2),
+      batch('a', 'move', 1, encodePoints([{ x: 30, y: 30 }], { x: 20, y: 20 })),
+      // Still being drawn when the time ran out
+      batch('b', 'start', 0, encodePoints([{ x: 500, y: 500 }]))
+    ]);
+
+    const patch = getTurnTimeoutPatch(state, expired, recorded);
+
+    assert.equal(patch?.currentTurn, 1);
+    assert.deepEqual(patch?.strokes?.map(stroke => [stroke.id, stroke.points]), [
+      ['a', [{ x: 10, y: 10 }, { x: 20, y: 20 }, { x: 30, y: 30 }]],
+      ['b', [{ x: 500, y: 500 }]]
+    ]);
+    assert.equal(patch?.strokes?.[0].width, 12);
+  });
+
+  it('leaves out undone strokes and duplicate batches', () => {
+    const state = createDrawingState();
+    const recorded = record(state, DRAWER, [
+      batch('a', 'start', 0, encodePoints([{ x: 10, y: 10 }])),
+      batch('a', 'start', 0, encodePoints([{ x: 10, y: 10 }])),
+      batch('a', 'end', 1),
+      batch('a', 'remove', 2),
+      batch('b', 'start', 0, encodePoints([{ x: 40, y: 40 }]))
+    ]);
+
+    const patch = getTurnTimeoutPatch(state, expired, recorded);
+
+    assert.deepEqual(patch?.strokes?.map(stroke => [stroke.id, stroke.points]), [['b', [{ x: 40, y: 40 }]]]);
+  });
+
+  it('only counts batches the drawer sent during the turn', () => {
+    const state = createDrawingState();
+    const fromEarlierTurn = record({ ...state, currentRound: 2 }, DRAWER, [batch('old', 'start', 0, [1, 1])]);
+    const recorded = record(state, VIEWER, [batch('c', 'start', 0, [1, 1])], fromEarlierTurn);
+
+    assert.equal(recorded, fromEarlierTurn);
+    assert.deepEqual(getTurnTimeoutPatch(state, expired, recorded)?.strokes, []);
+  });
+
+  it('ignores another player removing the drawer\'s strokes', () => {
+    const state = createDrawingState();
+    const drawn = record(state, DRAWER, [batch('a', 'start', 0, encodePoints([{ x: 10, y: 10 }])), batch('a', 'end', 1)]);
+    const recorded = record(state, VIEWER, [batch('a', 'remove', 2)], drawn);
+
+    assert.equal(recorded, drawn);
+    assert.deepEqual(getTurnTimeoutPatch(state, expired, recorded)?.strokes?.map(stroke => stroke.id), ['a']);
+  });
+
+  it('does nothing once the game has moved on', () => {
+    const state = { ...createDrawingState(), currentTurn: 1 };
+
+    assert.equal(getTurnTimeoutPatch(state, expired), null);
+  });
+});
+
+describe('getTurnDeadline', () => {
+  it('keeps the clock running for the rest of the turn', () => {
+    const state = createDrawingState();
+    const running = getTurnDeadline(state, undefined, 1000);
+
+    assert.equal(running?.deadline, 31000);
+    assert.equal(getTurnDeadline({ ...state, version: 5 }, running, 20000), running);
+  });
+
+  it('starts a fresh clock for the player who takes over from a drawer who left', () => {
+    const state: GameRoom = {
+      ...createDrawingState(),
+      players: [
+        ...createDrawingState().players,
+        { id: 3, name: 'Meera', colorIndex: 3, clientId: 'user-third', isImposter: true },
+        { id: 4, name: 'Kiran', colorIndex: 4, clientId: 'user-fourth' }
+      ]
+    };
+    const running = getTurnDeadline(state, undefined, 1000);
+    const next = { ...state, ...removeDepartedPlayer(state, DRAWER) };
+
+    assert.equal(next.currentTurn, 0);
+    assert.equal(getTurnDeadline(next, running, 20000)?.deadline, 50000);
+    assert.equal(getTurnTimeoutPatch(next, running!), null);
+  });
+});
@@ -0,0 +1,129 @@
+import { DrawingAction, GameRoom, GameRoomPatch } from '../types/game';
+import { getCurrentDrawer, getTurnCompletePatch, isCurrentDrawer } from './game-state';
+import { buildStrokes, mergeStrokes } from './drawing-stream';
+
+// Timed drawing turns, and the timed discussion before the vote, which is
+// timed like one more turn. In multiplayer the server starts the clock as
+// each turn begins and alone decides when it runs out, then moves the game
+// on itself. Clients only show the time left, corrected for the difference
+// between their clock and the server's. Local games keep time on their own
+// device.
+//
+// The server keeps the batches the drawer streams during a turn, so a turn
+// that runs out ends with what was drawn by then, even if the drawer never
+// got to report it.
+
+export const TIMED_PHASES = ['drawing', 'discussion'] as const;
+
+export type TimedPhase = typeof TIMED_PHASES[number];
+
+export interface TurnRef {
+  phase: TimedPhase;
+  round: number;
+  turn: number;
+  // Who is drawing. When the drawer leaves, the next player takes over the
+  // same turn number and gets a clock of their own.
+  drawerId?: number;
+}
+
+export interface TurnDeadline extends TurnRef {
+  // When the turn runs out, on the server's clock
+  deadline: number;
+}
+
+// A turn's deadline as a client sees it
+export interface TurnTimer extends TurnDeadline {
+  // How far the server's clock is ahead of this device's
+  clockOffset: number;
+}
+
+// Stroke batches the drawer has sent during a turn
+export interface TurnStrokes {
+  turn: TurnRef;
+  actions: DrawingAction[];
+}
+
+// More than a drawer can send in any turn, so a client cannot make the
+// server hold on to batches without end
+const MAX_TURN_BATCHES = 5000;
+
+export const isSameTurn = (a?: TurnRef | null, b?: TurnRef | null): boolean => (
+  !!a && !!b && a.phase === b.phase && a.round === b.round && a.turn === b.turn && a.drawerId === b.drawerId
+);
+
+const getDurationSeconds = (state: GameRoom): number => {
+  if (state.currentPhase === 'drawing') return state.timerEnabled ? state.timerDuration || 0 : 0;
+  if (state.currentPhase === 'discussion') return state.discussionDuration || 0;
+  return 0;
+};
+
+// The turn being played, or the discussion, whether timed or not
+export const getCurrentTurn = (state: GameRoom): TurnRef | null => (
+  (TIMED_PHASES as readonly string[]).includes(state.currentPhase)
+    ? {
+      phase: state.currentPhase as TimedPhase,
+      round: state.currentRound,
+      turn: state.currentTurn,
+      drawerId: getCurrentDrawer(state)?.id
+    }
+    : null
+);
+
+// The deadline of the turn being played: the running one while the turn
+// lasts, a fresh one when a timed turn has just started, or undefined when
+// no turn is on the clock
+export const getTurnDeadline = (
+  state: GameRoom | undefined,
+  running: TurnDeadline | undefined,
+  now = Date.now()
+): TurnDeadline | undefined => {
+  const turn = state && getCurrentTurn(state);
+  const seconds = state ? getDurationSeconds(state) : 0;
+  if (!turn || !seconds) return undefined;
+  if (isSameTurn(turn, running)) return running;
+
+  return { ...turn, deadline: now + seconds * 1000 };
+};
+
+// Add a batch sent by a client to the strokes of the turn being drawn.
+// Only the drawer's own batches count, and batches of an earlier turn are
+// dropped.
+export const recordTurnStroke = (
+  state: GameRoom | undefined,
+  recorded: TurnStrokes | undefined,
+  clientId: string,
+  action: DrawingAction
+): TurnStrokes | undefined => {
+  const turn = state && getCurrentTurn(state);
+  if (!turn || !isCurrentDrawer(state, clientId, action.playerId)) return recorded;
+
+  const actions = recorded && isSameTurn(recorded.turn, turn) ? recorded.actions : [];
+  if (actions.length >= MAX_TURN_BATCHES) return recorded;
+
+  return { turn, actions: [...actions, action] };
+};
+
+// What the server changes when a turn runs out: the turn ends with what the
+// drawer had streamed by then, and a discussion ends with the vote. Null if
+// the game has moved on already.
+export const getTurnTimeoutPatch = (
+  state: GameRoom,
+  expired: TurnRef,
+  turnStrokes?: TurnStrokes
+): GameRoomPatch | null => {
+  if (!isSameTurn(expired, getCurrentTurn(state))) return null;
+  if (expired.phase === 'discussion') return { currentPhase: 'voting' };
+
+  const drawn = turnStrokes && isSameTurn(turnStrokes.turn, expired) ? buildStrokes(turnStrokes.actions) : [];
+  return getTurnCompletePatch(state, mergeStrokes(state.strokes, drawn));
+};
+
+// From a server timestamp that has just arrived. Ignores the time it spent
+// on the way, which only makes the clock look a little generous.
+export const estimateClockOffset = (serverTime: number, receivedAt = Date.now()): number => (
+  serverTime - receivedAt
+);
+
+export const getRemainingMs = (deadline: number, clockOffset: number, now = Date.now()): number => (
+  Math.max(0, deadline - (now + clockOffset))
+);
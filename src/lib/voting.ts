@@ -0,0 +1,66 @@
+import { GameRoom, GameRoomPatch } from '../types/game';
+import { getVotingCompletePatch } from './word-guess';
+
+// Multiplayer voting rules, applied by the host only. Every player has one
+// ballot keyed by their seat, which they can change until they lock it in.
+// Voting ends once every player has locked in or the host ends it, and
+// caught imposters get their guess at the word before the results.
+
+export const createVotingState = (): GameRoomPatch => ({
+  votes: {},
+  ballots: {},
+  votedPlayerIds: [],
+  lockedPlayerIds: [],
+  guessingPlayerIds: [],
+  wordGuesses: {}
+});
+
+// Count the ballots into votes per player
+export const tallyVotes = (ballots: Record<number, number>): Record<number, number> => {
+  const votes: Record<number, number> = {};
+  for (const voteFor of Object.values(ballots)) {
+    votes[voteFor] = (votes[voteFor] || 0) + 1;
+  }
+  return votes;
+};
+
+export const castBallot = (
+  current: GameRoom,
+  voterId: number,
+  voteFor: number,
+  lockIn: boolean
+): GameRoomPatch | null => {
+  if (current.currentPhase !== 'voting') return null;
+
+  const lockedPlayerIds = current.lockedPlayerIds || [];
+  if (lockedPlayerIds.includes(voterId)) return null;
+  if (!current.players.some(p => p.id === voterId) || !current.players.some(p => p.id === voteFor)) {
+    return null;
+  }
+
+  if (current.ballots?.[voterId] === voteFor && !lockIn) return null;
+
+  const ballots = { ...current.ballots, [voterId]: voteFor };
+  const votedPlayerIds = current.votedPlayerIds?.includes(voterId)
+    ? current.votedPlayerIds
+    : [...(current.votedPlayerIds || []), voterId];
+  const updatedLocked = lockIn ? [...lockedPlayerIds, voterId] : lockedPlayerIds;
+
+  if (current.players.every(p => updatedLocked.includes(p.id))) {
+    return {
+      ballots,
+      votedPlayerIds,
+      lockedPlayerIds: updatedLocked,
+      ...getVotingCompletePatch(current, tallyVotes(ballots))
+    };
+  }
+
+  return { ballots, votedPlayerIds, lockedPlayerIds: updatedLocked };
+};
+
+// The host can close voting early; the ballots cast so far, locked in or
+// not, are counted
+export const endVoting = (current: GameRoom): GameRoomPatch | null => {
+  if (current.currentPhase !== 'voting') return null;
+  return getVotingCompletePatch(current, tallyVotes(current.ballots || {}));
+};
@@ -0,0 +1,62 @@
+import { beforeEach, describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { Player, WordPack } from '../types/game';
+import { dealSecretWord } from './word-deck';
+
+const store = new Map<string, string>();
+globalThis.localStorage = {
+  getItem: (key: string) => store.get(key) ?? null,
+  setItem: (key: string, value: string) => { store.set(key, value); }
+} as Storage;
+
+const pack: WordPack = {
+  id: 'test',
+  name: 'Test',
+  difficulty: 'easy',
+  locale: 'en',
+  tags: [],
+  categories: [{ name: 'Fruit', words: ['Mango', 'Apple', 'Banana'] }]
+};
+
+const player = (id: number, name: string): Player => ({ id, name, colorIndex: id });
+const group = [player(1, 'Asha'), player(2, 'Ravi'), player(3, 'Meera')];
+
+const dealAll = (players: Player[], count: number) => (
+  Array.from({ length: count }, () => dealSecretWord(pack, players)!.word)
+);
+
+describe('dealSecretWord', () => {
+  beforeEach(() => store.clear());
+
+  it('deals every word of the pack before any repeats', () => {
+    const words = dealAll(group, 3);
+
+    assert.deepEqual([...words].sort(), ['Apple', 'Banana', 'Mango']);
+    assert.equal(dealSecretWord(pack, group)?.wasExhausted, true);
+  });
+
+  it('keeps the deck of a group for its next session, whatever the seating', () => {
+    const [first] = dealAll(group, 1);
+    const nextSession = [player(7, ' meera '), player(8, 'ASHA'), player(9, 'Ravi')];
+
+    assert.notEqual(dealSecretWord(pack, nextSession)?.word, first);
+    assert.equal(dealSecretWord(pack, nextSession)?.remaining, 0);
+  });
+
+  it('gives another group its own deck', () => {
+    dealAll(group, 3);
+
+    assert.equal(dealSecretWord(pack, [player(1, 'Kiran'), player(2, 'Lata'), player(3, 'Anil')])?.wasExhausted, false);
+  });
+
+  it('leaves out the words a previous host dealt this session', () => {
+    const deal = dealSecretWord(pack, group, ['Mango', 'Apple']);
+
+    assert.equal(deal?.word, 'Banana');
+    assert.deepEqual(deal?.playedWords, ['Mango', 'Apple']);
+  });
+
+  it('deals nothing from an empty pack', () => {
+    assert.equal(dealSecretWord({ ...pack, categories: [{ name: 'Fruit', words: [] }] }, group), null);
+  });
+});
@@ -0,0 +1,138 @@
+import { Player, WordPack } from '../types/game';
+import { getWordCount, SecretWord } from './word-packs';
+
+// Secret words are dealt from a deck instead of drawn at random, so a group
+// sees every word of a pack before any word comes up again. Each group of
+// players has its own deck per pack, kept in the dealing device's
+// localStorage so it carries over to the group's next session. The words of
+// the current session also travel with the game state, so a new host deals
+// on without repeats. Once a deck is used up it is shuffled again from the
+// whole pack.
+
+const STORAGE_KEY = 'kaunArtistWordDecks';
+// Only the decks of the most recent groups are kept
+const MAX_STORED_DECKS = 20;
+
+interface StoredDeck {
+  // Words still to come, in the order they will be dealt
+  cards: SecretWord[];
+  // Words dealt since the deck was last shuffled
+  dealt: string[];
+  updatedAt: number;
+}
+
+export interface WordDeal extends SecretWord {
+  // Words left before the pack starts over
+  remaining: number;
+  // The group had played every word, so the deck was shuffled again first
+  wasExhausted: boolean;
+  // Words dealt before this one since the last shuffle, for the game state
+  playedWords: string[];
+}
+
+const shuffle = <T>(items: T[]): T[] => {
+  const shuffled = [...items];
+  for (let i = shuffled.length - 1; i > 0; i--) {
+    const j = Math.floor(Math.random() * (i + 1));
+    [shuffled[i], shuffled[j]] = [shuffled[j], shuffled[i]];
+  }
+  return shuffled;
+};
+
+// Every category is shuffled on its own and dealt from in turn, so a big
+// category does not crowd out the small ones
+const shuffleWords = (categories: WordPack['categories']): SecretWord[] => {
+  const piles = shuffle(categories).map(category => (
+    shuffle(category.words).map(word => ({ word, category: category.name }))
+  ));
+
+  const cards: SecretWord[] = [];
+  while (piles.some(pile => pile.length)) {
+    for (const pile of piles) {
+      const card = pile.shift();
+      if (card) cards.push(card);
+    }
+  }
+  return cards;
+};
+
+// The same players make the same group whatever order they sit in
+const getWordGroupKey = (players: Player[]): string => (
+  players.map(p => p.name.trim().toLowerCase()).sort().join('|')
+);
+
+const loadDecks = (): Record<string, StoredDeck> => {
+  try {
+    const stored = JSON.parse(localStorage.getItem(STORAGE_KEY) || '{}');
+    return stored && typeof stored === 'object' ? stored : {};
+  } catch (err) {
+    console.error('[WordDeck] Error loading word decks', err);
+    return {};
+  }
+};
+
+const saveDecks = (decks: Record<string, StoredDeck>) => {
+  const recent = Object.entries(decks)
+    .sort(([, a], [, b]) => b.updatedAt - a.updatedAt)
+    .slice(0, MAX_STORED_DECKS);
+
+  try {
+    localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(recent)));
+  } catch (err) {
+    console.error('[WordDeck] Error saving word decks', err);
+  }
+};
+
+// Bring a saved deck in line with the pack as it is now: words taken out of
+// the pack are dropped, words moved to another category follow it, and words
+// added since are shuffled in. Words the room has played, maybe under another
+// host, count as dealt.
+const reconcileDeck = (deck: StoredDeck | undefined, pack: WordPack, playedWords: string[]): StoredDeck => {
+  const categoryOf = new Map(pack.categories.flatMap(category => category.words.map(word => [word, category.name])));
+  const played = new Set(playedWords);
+  const cards = (deck?.cards || [])
+    .filter(card => categoryOf.has(card.word) && !played.has(card.word))
+    .map(card => ({ word: card.word, category: categoryOf.get(card.word) || card.category }));
+  const dealt = Array.from(new Set([...(deck?.dealt || []), ...playedWords])).filter(word => categoryOf.has(word));
+
+  const known = new Set([...cards.map(card => card.word), ...dealt]);
+  const added = pack.categories
+    .map(category => ({ ...category, words: category.words.filter(word => !known.has(word)) }))
+    .filter(category => category.words.length);
+
+  const addedCards = shuffleWords(added);
+  return {
+    cards: cards.length && addedCards.length ? shuffle([...cards, ...addedCards]) : [...cards, ...addedCards],
+    dealt,
+    updatedAt: Date.now()
+  };
+};
+
+// Deal the next secret word for this group of players. `playedWords` are
+// the words the game state says were played this session. Null when the
+// pack has no words to deal.
+export const dealSecretWord = (pack: WordPack, players: Player[], playedWords: string[] = []): WordDeal | null => {
+  if (getWordCount(pack) === 0) {
+    console.warn(`[WordDeck] Word pack ${pack.id} has no words to deal`);
+    return null;
+  }
+
+  const decks = loadDecks();
+  const key = `${pack.id}:${getWordGroupKey(players)}`;
+  let deck = reconcileDeck(decks[key], pack, playedWords);
+
+  const wasExhausted = deck.cards.length === 0;
+  if (wasExhausted) {
+    // Not the word that was just played, straight after it
+    const lastWord = deck.dealt[deck.dealt.length - 1];
+    const shuffled = shuffleWords(pack.categories);
+    const cards = shuffled.length > 1 && shuffled[0].word === lastWord ? [...shuffled.slice(1), shuffled[0]] : shuffled;
+    deck = { cards, dealt: [], updatedAt: Date.now() };
+  }
+
+  const [card, ...cards] = deck.cards;
+  decks[key] = { ...deck, cards, dealt: [...deck.dealt, card.word] };
+  saveDecks(decks);
+
+  return { ...card, remaining: cards.length, wasExhausted, playedWords: deck.dealt };
+};
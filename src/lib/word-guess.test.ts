@@ -0,0 +1,52 @@
+import { describe, it } from 'node:test';
+import assert from 'node:assert/strict';
+import { isCorrectGuess } from './word-guess';
+
+describe('isCorrectGuess', () => {
+  it('takes a plural guess for the word', () => {
+    assert.equal(isCorrectGuess('samosas', 'Samosa'), true);
+    assert.equal(isCorrectGuess('butterflies', 'Butterfly'), true);
+    assert.equal(isCorrectGuess('boxes', 'Box'), true);
+    assert.equal(isCorrectGuess('buses', 'Bus'), true);
+    assert.equal(isCorrectGuess('glass', 'Glass'), true);
+  });
+
+  it('takes plurals ending in "oes" without spending a typo', () => {
+    assert.equal(isCorrectGuess('mangoes', 'Mango'), true);
+    assert.equal(isCorrectGuess('potatoes', 'Potato'), true);
+    assert.equal(isCorrectGuess('shoes', 'Shoe'), true);
+    assert.equal(isCorrectGuess('toes', 'Toe'), true);
+    // The one typo a word this long allows is still there to spend
+    assert.equal(isCorrectGuess('vulcanoes', 'Volcano'), true);
+    assert.equal(isCorrectGuess('flamingoes', 'Flamingo'), true);
+  });
+
+  it('forgives a typo or two in longer words only', () => {
+    assert.equal(isCorrectGuess('elefant', 'Elephant'), true);
+    assert.equal(isCorrectGuess('elefent', 'Elephant'), true);
+    assert.equal(isCorrectGuess('mang', 'Mango'), false);
+    assert.equal(isCorrectGuess('mangu', 'Mango'), false);
+    assert.equal(isCorrectGuess('telescape', 'Telescope'), true);
+    assert.equal(isCorrectGuess('telscape', 'Telescope'), true);
+    assert.equal(isCorrectGuess('tlscape', 'Telescope'), false);
+  });
+
+  it('ignores case, accents, punctuation and the usual transliterations', () => {
+    assert.equal(isCorrectGuess('  BOLLYWOOD!', 'Bollywood'), true);
+    assert.equal(isCorrectGuess('café', 'Cafe'), true);
+    assert.equal(isCorrectGuess('dhoti', 'Dhoti'), true);
+    assert.equal(isCorrectGuess('doti', 'Dhoti'), true);
+  });
+
+  it('matches words of several parts however they are spaced', () => {
+    assert.equal(isCorrectGuess('Taj Mahal', 'Taj Mahal'), true);
+    assert.equal(isCorrectGuess('tajmahal', 'Taj Mahal'), true);
+    assert.equal(isCorrectGuess('taj  mahals', 'Taj Mahal'), true);
+    assert.equal(isCorrectGuess('taj', 'Taj Mahal'), false);
+  });
+
+  it('never takes an empty guess', () => {
+    assert.equal(isCorrectGuess('', 'Mango'), false);
+    assert.equal(isCorrectGuess('!?', 'Mango'), false);
+  });
+});
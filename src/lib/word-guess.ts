@@ -0,0 +1,110 @@
+import { GameRoom, GameRoomPatch } from '../types/game';
+import { getEliminatedPlayers } from './imposters';
+
+// The caught imposter's last chance. In the classic rules an imposter who is
+// voted out still wins by naming the word, so before the results every caught
+// imposter gets one guess, and a guess close enough to the word wins the game
+// for the imposters. Applied by the host, and by the server when the host is
+// the one leaving.
+
+export const MAX_GUESS_LENGTH = 50;
+
+// Spellings that are heard the same in Hindi words written in English
+const TRANSLITERATIONS: [RegExp, string][] = [
+  [/ph/g, 'f'],
+  [/([bdgjkt])h/g, '$1'],
+  [/sh/g, 's'],
+  [/ee|ii/g, 'i'],
+  [/oo|uu/g, 'u'],
+  [/w/g, 'v'],
+  [/z/g, 'j'],
+  [/q/g, 'k'],
+  [/y\b/g, 'i']
+];
+
+// A plural guess still names the word: "samosas", "butterflies", "mangoes".
+// A word ending in "oe" drops the "e" too, so "shoes" still names "shoe".
+const singularize = (word: string): string => {
+  if (/oes?$/.test(word)) return word.replace(/es?$/, '');
+  if (word.length <= 3 || word.endsWith('ss')) return word;
+  if (word.endsWith('ies')) return `${word.slice(0, -3)}y`;
+  if (/(s|x|ch|sh)es$/.test(word)) return word.slice(0, -2);
+  return word.endsWith('s') ? word.slice(0, -1) : word;
+};
+
+// Ignore case, accents, punctuation and spacing, plurals, the usual
+// transliterations and doubled letters
+export const normalizeGuess = (text: string): string => {
+  const words = text
+    .normalize('NFKD')
+    .replace(/[\u0300-\u036f]/g, '')
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, '')
+    .split(/\s+/)
+    .filter(Boolean)
+    .map(singularize);
+
+  const transliterated = TRANSLITERATIONS.reduce(
+    (result, [pattern, replacement]) => result.replace(pattern, replacement),
+    words.join(' ')
+  );
+  return transliterated.replace(/\s/g, '').replace(/(.)\1+/g, '$1');
+};
+
+const getEditDistance = (a: string, b: string): number => {
+  let previous = Array.from({ length: b.length + 1 }, (_, j) => j);
+  for (let i = 1; i <= a.length; i++) {
+    const row = [i];
+    for (let j = 1; j <= b.length; j++) {
+      const substitution = previous[j - 1] + (a[i - 1] === b[j - 1] ? 0 : 1);
+      row[j] = Math.min(previous[j] + 1, row[j - 1] + 1, substitution);
+    }
+    previous = row;
+  }
+  return previous[b.length];
+};
+
+// Short words must be spelled right, longer ones may have a typo or two
+const getAllowedTypos = (length: number): number => (length <= 5 ? 0 : length <= 8 ? 1 : 2);
+
+export const isCorrectGuess = (guess: string, secretWord: string): boolean => {
+  const normalizedGuess = normalizeGuess(guess);
+  const normalizedWord = normalizeGuess(secretWord);
+  if (!normalizedGuess || !normalizedWord) return false;
+
+  return getEditDistance(normalizedGuess, normalizedWord) <= getAllowedTypos(normalizedWord.length);
+};
+
+// The end of the vote. Caught imposters get their guess before the results.
+export const getVotingCompletePatch = (current: GameRoom, votes: Record<number, number>): GameRoomPatch => {
+  const caught = getEliminatedPlayers(current.players, votes, current.imposterCount || 1).filter(p => p.isImposter);
+
+  return caught.length
+    ? { votes, wordGuesses: {}, guessingPlayerIds: caught.map(p => p.id), currentPhase: 'imposterGuess' }
+    : { votes, currentPhase: 'results' };
+};
+
+// An empty guess is a guess given up. The results follow once every caught
+// imposter has guessed, or straight away when one names the word.
+const recordGuess = (current: GameRoom, playerId: number, guess: string): GameRoomPatch | null => {
+  const guessingPlayerIds = current.guessingPlayerIds || [];
+  if (current.currentPhase !== 'imposterGuess' || !guessingPlayerIds.includes(playerId)) return null;
+  if (current.wordGuesses?.[playerId] !== undefined) return null;
+
+  const wordGuesses = { ...current.wordGuesses, [playerId]: guess };
+  const isOver = isCorrectGuess(guess, current.secretWord || '') ||
+    guessingPlayerIds.every(id => wordGuesses[id] !== undefined);
+
+  return isOver ? { wordGuesses, currentPhase: 'results' } : { wordGuesses };
+};
+
+// A caught imposter's guess. Null when they have no guess to make.
+export const submitWordGuess = (current: GameRoom, playerId: number, guess: string): GameRoomPatch | null => {
+  const trimmed = guess.trim().slice(0, MAX_GUESS_LENGTH);
+  return trimmed ? recordGuess(current, playerId, trimmed) : null;
+};
+
+// A caught imposter who leaves gives up their guess
+export const forfeitWordGuess = (current: GameRoom, playerId: number): GameRoomPatch | null => (
+  recordGuess(current, playerId, '')
+);
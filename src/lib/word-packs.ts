@@ -0,0 +1,97 @@
+import { WordCategory, WordPack } from '../types/game';
+import { DEFAULT_WORD_PACK_ID, WORD_PACKS } from '../data/wordPacks';
+import { normalizeGuess } from './word-guess';
+
+// Word packs the secret word is dealt from, see src/lib/word-deck.ts. Packs
+// group their words by category, and the category can be given to imposters
+// as a hint. Besides the built-in packs, players can write their own, see
+// src/lib/custom-word-packs.ts; the host sends theirs along with the game.
+
+export const MAX_PACK_NAME_LENGTH = 40;
+export const MAX_PACK_DESCRIPTION_LENGTH = 120;
+export const MAX_CATEGORY_NAME_LENGTH = 40;
+export const MAX_WORD_LENGTH = 40;
+export const MAX_PACK_WORDS = 500;
+
+// Category of words written before any category heading
+export const DEFAULT_CATEGORY_NAME = 'Words';
+
+export interface SecretWord {
+  word: string;
+  category: string;
+}
+
+// The room's custom pack when it is the one picked. Unknown ids fall back to
+// the default pack.
+export const getWordPack = (id?: string, customPack?: WordPack): WordPack => (
+  (customPack && customPack.id === id ? customPack : undefined) ||
+  WORD_PACKS.find(pack => pack.id === id) ||
+  WORD_PACKS.find(pack => pack.id === DEFAULT_WORD_PACK_ID) ||
+  WORD_PACKS[0]
+);
+
+export const getWordCount = (pack: WordPack): number => (
+  pack.categories.reduce((count, category) => count + category.words.length, 0)
+);
+
+// Why a pack cannot be played as it is, empty when it can. Words that only
+// differ the way a guess may differ from the word count as duplicates.
+export const getWordPackProblems = (pack: WordPack): string[] => {
+  const problems: string[] = [];
+  if (!pack.name.trim()) problems.push('Give the pack a name');
+  if (pack.name.length > MAX_PACK_NAME_LENGTH) problems.push(`Pack names are at most ${MAX_PACK_NAME_LENGTH} characters`);
+  if ((pack.description || '').length > MAX_PACK_DESCRIPTION_LENGTH) {
+    problems.push(`Descriptions are at most ${MAX_PACK_DESCRIPTION_LENGTH} characters`);
+  }
+
+  const wordCount = getWordCount(pack);
+  if (!wordCount) problems.push('Add at least one word');
+  if (wordCount > MAX_PACK_WORDS) problems.push(`Packs hold at most ${MAX_PACK_WORDS} words`);
+
+  const seen = new Map<string, string>();
+  for (const category of pack.categories) {
+    if (!category.name.trim()) problems.push('Every category needs a name');
+    if (category.name.length > MAX_CATEGORY_NAME_LENGTH) {
+      problems.push(`"${category.name}" is longer than ${MAX_CATEGORY_NAME_LENGTH} characters`);
+    }
+
+    for (const word of category.words) {
+      const key = normalizeGuess(word);
+      if (!key) {
+        problems.push(word.trim() ? `"${word}" has no letters to guess` : `${category.name} has an empty word`);
+      } else if (word.length > MAX_WORD_LENGTH) {
+        problems.push(`"${word}" is longer than ${MAX_WORD_LENGTH} characters`);
+      } else if (seen.has(key)) {
+        problems.push(`"${word}" is the same word as "${seen.get(key)}"`);
+      } else {
+        seen.set(key, word);
+      }
+    }
+  }
+  return problems;
+};
+
+// Packs as plain text: one word per line, with optional "# Category"
+// headings. Blank lines are skipped.
+export const parseWordPackText = (text: string): WordCategory[] => {
+  const categories: WordCategory[] = [];
+  for (const line of text.split(/\r?\n/)) {
+    const trimmed = line.trim();
+    if (!trimmed) continue;
+
+    if (trimmed.startsWith('#')) {
+      categories.push({ name: trimmed.slice(1).trim(), words: [] });
+      continue;
+    }
+
+    if (!categories.length) categories.push({ name: DEFAULT_CATEGORY_NAME, words: [] });
+    categories[categories.length - 1].words.push(trimmed);
+  }
+  return categories.filter(category => category.words.length > 0);
+};
+
+export const formatWordPackText = (categories: WordCategory[]): string => (
+  categories
+    .map(category => [`# ${category.name}`, ...category.words].join('\n'))
+    .join('\n\n')
+);
@@ -1,256 +1,607 @@
-
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useCallback } from 'react';
 import GameSetup from '@/components/GameSetup';
 import PlayerConfig from '@/components/PlayerConfig';
+import Lobby from '@/components/Lobby';
 import WordReveal from '@/components/WordReveal';
 import DrawingCanvas from '@/components/DrawingCanvas';
+import Discussion from '@/components/Discussion';
 import Voting from '@/components/Voting';
+import WordGuess from '@/components/WordGuess';
 import Results from '@/components/Results';
-import { Player, GameConfig, GamePhase, Stroke } from '@/types/game';
-import { getRandomWord } from '@/data/wordsList';
+import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
+import { Button } from '@/components/ui/button';
+import { Loader2 } from 'lucide-react';
+import { Player, GameConfig, GameRoom, GameRoomPatch, Stroke } from '@/types/game';
+import { getRandomName, indianNames } from '@/data/wordsList';
 import { useToast } from "@/hooks/use-toast";
 import { useSocket } from '@/contexts/SocketContext';
-import { useNavigate } from 'react-router-dom';
+import { useGameState } from '@/hooks/use-game-state';
+import { useTurnTimer } from '@/hooks/use-turn-timer';
+import { createGameRoom, getReportedTurnPatch, getRoundCompletePatch } from '@/lib/game-state';
+import { getReadyPlayers, getUnusedName, isLobbyFull, MIN_PLAYERS, setLobbyPlayerReady, upsertLobbyPlayer } from '@/lib/lobby';
+import { removeDepartedPlayer } from '@/lib/departures';
+import {
+  ClientPresenceData,
+  emitEvent,
+  HostChangedData,
+  onEvent,
+  PlayerChatData,
+  PlayerKickedData,
+  PlayerProfileData,
+  PlayerReadyData,
+  PlayerVoteData,
+  PlayerWordGuessData,
+  RoomEventData,
+  RoomLockedData,
+  RoomMembershipData,
+  SERVER_EVENTS,
+  TurnCompleteData,
+  TurnExpiredData
+} from '@/lib/protocol';
+import { isSameTurn } from '@/lib/turn-timer';
+import { castBallot, createVotingState, endVoting } from '@/lib/voting';
+import { addChatMessage, createDiscussionState, setNotes } from '@/lib/discussion';
+import { assignImposters, getImposterCount } from '@/lib/imposters';
+import { getVotingCompletePatch, submitWordGuess } from '@/lib/word-guess';
+import { getWordPack } from '@/lib/word-packs';
+import { dealSecretWord } from '@/lib/word-deck';
+import { mergeStrokes } from '@/lib/drawing-stream';
+import { parseRoomCode } from '@/lib/invite';
+import { useNavigate, useParams } from 'react-router-dom';
+
+// How often a client without a lobby seat asks the host for one again
+const SEAT_CLAIM_RETRY_MS = 3000;
 
 const Game: React.FC = () => {
-  const [gamePhase, setGamePhase] = useState<GamePhase>('setup');
   const [config, setConfig] = useState<GameConfig | null>(null);
-  const [players, setPlayers] = useState<Player[]>([]);
-  const [secretWord, setSecretWord] = useState<string>('');
-  const [currentRound, setCurrentRound] = useState<number>(1);
-  const [strokes, setStrokes] = useState<Stroke[]>([]);
-  const [votes, setVotes] = useState<Record<number, number>>({});
-  const [timerDuration, setTimerDuration] = useState<number>(30); // Default 30 seconds
-  const [timerEnabled, setTimerEnabled] = useState<boolean>(false);
-  const [startingPlayerOffset, setStartingPlayerOffset] = useState<number>(0);
   const { toast } = useToast();
-  const { socket, roomId, leaveRoom } = useSocket();
+  const { socket, clientId, roomId, isRoomLocked, isSpectator, leaveRoom } = useSocket();
+  const { state: game, isAuthority, update, reset } = useGameState();
+  const turnTimer = useTurnTimer();
   const navigate = useNavigate();
+  const params = useParams();
+  // Room from the invite link we were opened with, to join from the setup screen
+  const [inviteRoomId, setInviteRoomId] = useState<string | null>(null);
+
+  const {
+    currentPhase: gamePhase,
+    players,
+    secretWord = '',
+    secretCategory = '',
+    currentRound,
+    currentTurn,
+    strokes,
+    votes = {},
+    roleAcks = [],
+    ballots = {},
+    votedPlayerIds = [],
+    lockedPlayerIds = [],
+    guessingPlayerIds = [],
+    wordGuesses = {},
+    timerEnabled = false,
+    timerDuration = 30,
+    discussionDuration,
+    chat = [],
+    notes = '',
+    imposterCount = 1,
+    startingPlayerOffset
+  } = game;
+  const roundCount = game.gameConfig?.roundCount || 1;
+  const isMultiplayer = !!config?.isMultiplayer;
+  const localPlayer = isMultiplayer ? players.find(p => p.clientId === clientId) : undefined;
 
   useEffect(() => {
-    const params = new URLSearchParams(window.location.search);
-    const roomParam = params.get('room');
-    
-    if (roomParam) {
-      console.log("Found room param in URL:", roomParam);
-      navigate('/', { replace: true });
+    const search = new URLSearchParams(window.location.search);
+    const roomParam = params.roomId || search.get('room');
+    if (!roomParam) return;
+
+    const code = parseRoomCode(roomParam);
+    console.log("Opened with invite for room:", roomParam);
+    if (code && code !== roomId) {
+      setInviteRoomId(code);
     }
-  }, [navigate]);
+    navigate('/', { replace: true });
+  }, [params.roomId, roomId, navigate]);
+
+  // After a refresh the socket reclaims our seat; pick the game back up
+  useEffect(() => {
+    if (!roomId || config) return;
+
+    setConfig({
+      playerCount: 0,
+      roundCount: 1,
+      isMultiplayer: true,
+      isHost: false,
+      roomId
+    });
+  }, [roomId, config]);
+
+  // The room is gone (it expired, or our seat was given away): start over
+  useEffect(() => {
+    if (!config?.isMultiplayer || !config.roomId || roomId) return;
+
+    setConfig(null);
+    reset({
+      ...createGameRoom('', ''),
+      timerEnabled,
+      timerDuration,
+      discussionDuration
+    });
+  }, [roomId, config, reset, timerEnabled, timerDuration, discussionDuration]);
+
+  // Every client announces new rounds as the host's state moves on
+  useEffect(() => {
+    if (gamePhase !== 'drawing' || currentRound <= 1) return;
+
+    toast({
+      title: "Round complete!",
+      description: `Starting round ${currentRound} of ${roundCount}`,
+    });
+  }, [gamePhase, currentRound, roundCount, toast]);
+
+  // Host side: apply a finished turn reported by its drawer
+  const completeTurn = useCallback((senderId: string, turnStrokes: Stroke[], round: number, turn: number) => {
+    update(current => getReportedTurnPatch(current, senderId, turnStrokes, round, turn));
+  }, [update]);
+
+  // Host side: lobby roster changes, from the host itself or relayed intents
+  const setLobbyName = useCallback((playerClientId: string, name: string) => {
+    update(current => {
+      if (current.currentPhase !== 'lobby') return null;
+      const updatedPlayers = upsertLobbyPlayer(current.players, playerClientId, name);
+      return updatedPlayers && { players: updatedPlayers };
+    });
+  }, [update]);
+
+  const setLobbyReady = useCallback((playerClientId: string, isReady: boolean) => {
+    update(current => {
+      if (current.currentPhase !== 'lobby') return null;
+      const updatedPlayers = setLobbyPlayerReady(current.players, playerClientId, isReady);
+      return updatedPlayers && { players: updatedPlayers };
+    });
+  }, [update]);
+
+  // Host side: record that a player has seen their role, and start drawing
+  // once everyone has
+  const acknowledgeRole = useCallback((playerClientId: string) => {
+    update(current => {
+      if (current.currentPhase !== 'wordReveal') return null;
+
+      const player = current.players.find(p => p.clientId === playerClientId);
+      const acks = current.roleAcks || [];
+      if (!player || acks.includes(player.id)) return null;
 
+      const updatedAcks = [...acks, player.id];
+      if (current.players.every(p => updatedAcks.includes(p.id))) {
+        return { roleAcks: updatedAcks, currentPhase: 'drawing', currentTurn: 0 };
+      }
+
+      return { roleAcks: updatedAcks };
+    });
+  }, [update]);
+
+  // Host side: add a message to the discussion chat
+  const postChatMessage = useCallback((senderClientId: string, text: string) => {
+    update(current => addChatMessage(current, senderClientId, text));
+  }, [update]);
+
+  // Host side: record a player's ballot. Voting ends, for everyone at once,
+  // when the last player locks in.
+  const castVote = useCallback((voterClientId: string, voteFor: number, lockIn: boolean) => {
+    update(current => {
+      const voter = current.players.find(p => p.clientId === voterClientId);
+      return voter ? castBallot(current, voter.id, voteFor, lockIn) : null;
+    });
+  }, [update]);
+
+  // Host side: record a caught imposter's guess at the word
+  const guessWord = useCallback((guesserClientId: string, guess: string) => {
+    update(current => {
+      const guesser = current.players.find(p => p.clientId === guesserClientId);
+      return guesser ? submitWordGuess(current, guesser.id, guess) : null;
+    });
+  }, [update]);
+
+  // Claim a seat with a placeholder name as soon as we see the host's lobby.
+  // The host quietly turns away a name that is already taken, so keep asking
+  // with a name the roster does not use until we have a seat. A full lobby
+  // turns everyone away, so wait for someone to leave before asking again.
+  const hasLobbySeat = !!localPlayer;
+  const isRoomFull = isLobbyFull(players);
   useEffect(() => {
-    if (!socket || !config?.isMultiplayer) return;
-
-    const handleGameStateUpdate = (gameState: any) => {
-      console.log("Received game state update:", gameState);
-      if (gameState.players) setPlayers(gameState.players);
-      if (gameState.gamePhase) setGamePhase(gameState.gamePhase);
-      if (gameState.secretWord) setSecretWord(gameState.secretWord);
-      if (gameState.currentRound) setCurrentRound(gameState.currentRound);
-      if (gameState.strokes) setStrokes(gameState.strokes);
-      if (gameState.votes) setVotes(gameState.votes);
-      if (gameState.timerDuration !== undefined) setTimerDuration(gameState.timerDuration);
-      if (gameState.timerEnabled !== undefined) setTimerEnabled(gameState.timerEnabled);
-      if (gameState.startingPlayerOffset !== undefined) setStartingPlayerOffset(gameState.startingPlayerOffset);
+    if (!socket || !roomId || isAuthority || isSpectator || gamePhase !== 'lobby' || hasLobbySeat || isRoomFull) return;
+
+    const claimSeat = () => {
+      emitEvent(socket, 'player-profile', { roomId, name: getUnusedName(players, indianNames) });
     };
+    claimSeat();
+    const retry = setInterval(claimSeat, SEAT_CLAIM_RETRY_MS);
+    return () => clearInterval(retry);
+  }, [socket, roomId, isAuthority, isSpectator, gamePhase, hasLobbySeat, isRoomFull, players]);
 
-    const handlePlayerJoined = (newPlayer: any) => {
-      console.log("Player joined event:", newPlayer);
-      toast({
+  useEffect(() => {
+    if (!socket || !isMultiplayer) return;
+
+    const getPlayerName = (playerClientId: string) =>
+      players.find(p => p.clientId === playerClientId)?.name || 'A player';
+
+    const handlePlayerJoined = (data: RoomMembershipData) => {
+      console.log("Player joined event:", data);
+      if (data.clientId === clientId) return;
+
+      toast(data.isSpectator ? {
+        title: "Spectator joined",
+        description: "Someone is now watching the game"
+      } : {
         title: "Player joined",
-        description: `${newPlayer.name || 'A new player'} has joined the game`
+        description: "A new player has joined the game"
       });
-      
-      if (newPlayer.clientId) {
-        setPlayers(current => [
-          ...current, 
-          {
-            id: current.length + 1,
-            name: `Player ${current.length + 1}`,
-            color: `#${Math.floor(Math.random()*16777215).toString(16)}`,
-            colorIndex: current.length % 8, // Add colorIndex property to match Player type
-            isImposter: false,
-            isOnline: true,
-            clientId: newPlayer.clientId
-          }
-        ]);
-      } else {
-        setPlayers(current => [...current, newPlayer]);
-      }
     };
 
-    const handlePlayerLeft = (data: any) => {
-      const playerId = data.playerId || data.clientId;
+    const handlePlayerLeft = (data: RoomMembershipData) => {
       console.log("Player left event:", data);
-      
-      // Find player by id or clientId, being careful with potential type issues
-      const leavingPlayer = players.find(p => 
-        p.id === playerId || (p as any).clientId === data.clientId
-      );
-      
-      if (leavingPlayer) {
+      if (data.isSpectator) return;
+
+      toast({
+        title: "Player left",
+        description: `${getPlayerName(data.clientId)} has left the game`
+      });
+
+      // Free up their seat, carrying on without them if a game is running
+      if (isAuthority) {
+        update(current => removeDepartedPlayer(current, data.clientId));
+      }
+    };
+
+    // Seats are held while a player reconnects; the host flags them offline
+    const setPlayerOnline = (playerClientId: string, isOnline: boolean) => {
+      if (!isAuthority) return;
+
+      update(current => {
+        if (!current.players.some(p => p.clientId === playerClientId)) return null;
+
+        return {
+          players: current.players.map(p => (
+            p.clientId === playerClientId ? { ...p, isOnline } : p
+          ))
+        };
+      });
+    };
+
+    const handlePlayerDisconnected = (data: ClientPresenceData) => {
+      toast({
+        title: "Connection lost",
+        description: `${getPlayerName(data.clientId)} dropped out, holding their seat`
+      });
+      setPlayerOnline(data.clientId, false);
+    };
+
+    const handlePlayerReconnected = (data: ClientPresenceData) => {
+      toast({
+        title: "Player reconnected",
+        description: `${getPlayerName(data.clientId)} is back`
+      });
+      setPlayerOnline(data.clientId, true);
+    };
+
+    // We hear about our own removal in the socket context
+    const handlePlayerKicked = (data: PlayerKickedData) => {
+      if (data.clientId === clientId) return;
+
+      toast({
+        title: data.banned ? "Player banned" : "Player removed",
+        description: `The host removed ${getPlayerName(data.clientId)} from the room`
+      });
+    };
+
+    const handleRoomLocked = (data: RoomLockedData) => {
+      toast({
+        title: data.locked ? "Room locked" : "Room unlocked",
+        description: data.locked
+          ? "No new players can join this room"
+          : "New players can join this room again"
+      });
+    };
+
+    const handleHostChanged = (data: HostChangedData) => {
+      toast({
+        title: "New host",
+        description: data.hostId === clientId
+          ? "You are now the host of this room"
+          : `${getPlayerName(data.hostId)} is now the host`
+      });
+    };
+
+    const handlePlayerProfile = (data: PlayerProfileData) => {
+      if (!isAuthority || data.roomId !== roomId || !data.senderId) return;
+      setLobbyName(data.senderId, data.name);
+    };
+
+    const handlePlayerReady = (data: PlayerReadyData) => {
+      if (!isAuthority || data.roomId !== roomId || !data.senderId) return;
+      setLobbyReady(data.senderId, data.isReady);
+    };
+
+    const handleRoleAck = (data: RoomEventData) => {
+      if (!isAuthority || data.roomId !== roomId || !data.senderId) return;
+      acknowledgeRole(data.senderId);
+    };
+
+    const handlePlayerVote = (data: PlayerVoteData) => {
+      if (!isAuthority || data.roomId !== roomId || !data.senderId) return;
+      castVote(data.senderId, data.voteFor, data.lockIn);
+    };
+
+    const handleTurnComplete = (data: TurnCompleteData) => {
+      if (!isAuthority || data.roomId !== roomId || !data.senderId) return;
+      completeTurn(data.senderId, data.strokes, data.round, data.turn);
+    };
+
+    const handlePlayerChat = (data: PlayerChatData) => {
+      if (!isAuthority || data.roomId !== roomId || !data.senderId) return;
+      postChatMessage(data.senderId, data.text);
+    };
+
+    const handlePlayerWordGuess = (data: PlayerWordGuessData) => {
+      if (!isAuthority || data.roomId !== roomId || !data.senderId) return;
+      guessWord(data.senderId, data.guess);
+    };
+
+    // The server moves the game on itself when a turn runs out of time
+    const handleTurnExpired = (data: TurnExpiredData) => {
+      if (data.roomId !== roomId) return;
+
+      if (data.phase === 'discussion') {
         toast({
-          title: "Player left",
-          description: `${leavingPlayer.name} has left the game`
+          title: "Time's up!",
+          description: "Voting is open."
         });
-        
-        setPlayers(current => current.filter(p => 
-          p.id !== playerId && (p as any).clientId !== data.clientId
-        ));
+        return;
       }
+
+      const drawer = players[data.turn];
+      toast({
+        title: "Time's up!",
+        description: drawer?.clientId === clientId ? "Your turn has ended." : `${drawer?.name || 'The player'}'s turn has ended.`
+      });
     };
 
-    socket.on('game-state-update', handleGameStateUpdate);
-    socket.on('player-joined', handlePlayerJoined);
-    socket.on('player-left', handlePlayerLeft);
+    const unsubscribers = [
+      onEvent(socket, SERVER_EVENTS.playerJoined, handlePlayerJoined),
+      onEvent(socket, SERVER_EVENTS.playerLeft, handlePlayerLeft),
+      onEvent(socket, SERVER_EVENTS.playerDisconnected, handlePlayerDisconnected),
+      onEvent(socket, SERVER_EVENTS.playerReconnected, handlePlayerReconnected),
+      onEvent(socket, SERVER_EVENTS.playerKicked, handlePlayerKicked),
+      onEvent(socket, SERVER_EVENTS.roomLocked, handleRoomLocked),
+      onEvent(socket, SERVER_EVENTS.hostChanged, handleHostChanged),
+      onEvent(socket, 'player-profile', handlePlayerProfile),
+      onEvent(socket, 'player-ready', handlePlayerReady),
+      onEvent(socket, 'player-role-ack', handleRoleAck),
+      onEvent(socket, 'player-vote', handlePlayerVote),
+      onEvent(socket, 'player-turn-complete', handleTurnComplete),
+      onEvent(socket, 'player-chat', handlePlayerChat),
+      onEvent(socket, 'player-word-guess', handlePlayerWordGuess),
+      onEvent(socket, SERVER_EVENTS.turnExpired, handleTurnExpired)
+    ];
 
     return () => {
-      socket.off('game-state-update', handleGameStateUpdate);
-      socket.off('player-joined', handlePlayerJoined);
-      socket.off('player-left', handlePlayerLeft);
+      unsubscribers.forEach(unsubscribe => unsubscribe());
     };
-  }, [socket, config?.isMultiplayer, players, toast]);
-
-  useEffect(() => {
-    if (players.length > 0 && !secretWord) {
-      const word = getRandomWord();
-      setSecretWord(word);
-      
-      if (config?.isMultiplayer && socket && config.isHost && roomId) {
-        socket.emit('set-secret-word', { roomId, secretWord: word });
-      }
-    }
-  }, [players, secretWord, config, socket, roomId]);
+  }, [socket, clientId, players, isMultiplayer, isAuthority, roomId, update, completeTurn, setLobbyName, setLobbyReady, acknowledgeRole, postChatMessage, castVote, guessWord, toast]);
 
   const handleConfigSubmit = (newConfig: GameConfig) => {
     setConfig(newConfig);
-    
-    // Set timer settings if provided in config
-    if (newConfig.timerEnabled && newConfig.timerDuration) {
-      setTimerDuration(newConfig.timerDuration);
-      setTimerEnabled(true);
-    } else {
-      setTimerEnabled(false);
+
+    // Clients wait for the host's game state to arrive
+    if (newConfig.isMultiplayer && !newConfig.isHost) {
+      return;
     }
-    
-    if (newConfig.isMultiplayer) {
-      if (newConfig.isHost && socket && roomId) {
-        socket.emit('game-config', { 
-          roomId, 
-          config: newConfig 
-        });
-      }
+
+    // Multiplayer games gather players in the lobby, the host takes the first seat
+    const hostId = newConfig.isMultiplayer && clientId ? clientId : '';
+    const hostPlayers = hostId ? upsertLobbyPlayer([], hostId, getRandomName()) || [] : [];
+    reset({
+      ...createGameRoom(newConfig.roomId || '', hostId, newConfig),
+      players: hostPlayers,
+      timerEnabled: !!(newConfig.timerEnabled && newConfig.timerDuration),
+      timerDuration: newConfig.timerDuration || timerDuration,
+      discussionDuration: newConfig.discussionDuration,
+      currentPhase: newConfig.isMultiplayer ? 'lobby' : 'playerConfig'
+    });
+  };
+
+  const handleLobbyNameChange = (name: string) => {
+    if (!clientId) return;
+
+    if (isAuthority) {
+      setLobbyName(clientId, name);
+    } else if (socket && roomId) {
+      emitEvent(socket, 'player-profile', { roomId, name });
     }
-    
-    setGamePhase('playerConfig');
   };
 
-  const handlePlayersConfigured = (configuredPlayers: Player[]) => {
-    // Assign truly random imposter
-    const imposterIndex = Math.floor(Math.random() * configuredPlayers.length);
-    
-    console.log("Random imposter index:", imposterIndex);
-    
-    const playersWithImposter = configuredPlayers.map((player, index) => ({
+  const handleLobbyReadyChange = (isReady: boolean) => {
+    if (!clientId) return;
+
+    if (isAuthority) {
+      setLobbyReady(clientId, isReady);
+    } else if (socket && roomId) {
+      emitEvent(socket, 'player-ready', { roomId, isReady });
+    }
+  };
+
+  // Host moderation; the server checks we are still the host
+  const handleKickPlayer = (targetClientId: string, ban: boolean) => {
+    if (socket && roomId) {
+      emitEvent(socket, SERVER_EVENTS.kickPlayer, { roomId, clientId: targetClientId, ban });
+    }
+  };
+
+  const handleTransferHost = (targetClientId: string) => {
+    if (socket && roomId) {
+      emitEvent(socket, SERVER_EVENTS.transferHost, { roomId, clientId: targetClientId });
+    }
+  };
+
+  const handleLockChange = (locked: boolean) => {
+    if (socket && roomId) {
+      emitEvent(socket, SERVER_EVENTS.lockRoom, { roomId, locked });
+    }
+  };
+
+  // Players who are not ready sit this game out. The start button waits for
+  // enough ready players, but the roster may have changed since it was
+  // drawn, so check again against the state.
+  const handleLobbyStart = () => {
+    update(current => {
+      const readyPlayers = getReadyPlayers(current.players);
+      if (current.currentPhase !== 'lobby' || readyPlayers.length < MIN_PLAYERS) return null;
+
+      return {
+        ...dealNewGame(readyPlayers),
+        gameConfig: current.gameConfig && { ...current.gameConfig, playerCount: readyPlayers.length }
+      };
+    });
+  };
+
+  // The next secret word for these players from the room's word pack. A
+  // pack with no words to deal falls back to the default pack.
+  const dealRoomWord = (gamePlayers: Player[]) => {
+    const playedWords = game.secretWord ? [...(game.playedWords || []), game.secretWord] : game.playedWords;
+    const pack = getWordPack(game.gameConfig?.wordPackId, game.gameConfig?.customWordPack);
+    const deal = dealSecretWord(pack, gamePlayers, playedWords);
+    if (deal) return { ...deal, packName: pack.name };
+
+    const defaultPack = getWordPack();
+    return { ...dealSecretWord(defaultPack, gamePlayers, playedWords)!, packName: defaultPack.name };
+  };
+
+  // Told along with the game start, as only one toast shows at a time
+  const getDeckNotice = (deal: ReturnType<typeof dealRoomWord>): string => {
+    if (deal.wasExhausted) return ` Every word in ${deal.packName} has been played, so the pack starts over.`;
+    if (deal.remaining === 0) return ` This is the last unplayed word in ${deal.packName}.`;
+    return '';
+  };
+
+  // Deal roles and a word to these players and tell the host the game is
+  // starting. Returns the change that starts it.
+  const dealNewGame = (configuredPlayers: Player[]): GameRoomPatch => {
+    const imposterCount = getImposterCount(game.gameConfig, configuredPlayers.length);
+    const playersWithImposter = assignImposters(configuredPlayers, imposterCount).map(player => ({
       ...player,
-      isImposter: index === imposterIndex,
-      isOnline: config?.isMultiplayer || false
+      isOnline: (config?.isMultiplayer && player.isOnline !== false) || false
     }));
-    
-    setPlayers(playersWithImposter);
-    setStartingPlayerOffset(0); // Reset starting player offset for first game
-    setGamePhase('wordReveal');
-    
-    if (config?.isMultiplayer && socket && roomId && config.isHost) {
-      socket.emit('players-configured', { 
-        roomId, 
-        players: playersWithImposter,
-        startingPlayerOffset: 0
-      });
-    }
-    
+    const deal = dealRoomWord(playersWithImposter);
+
     toast({
       title: "Game starting!",
-      description: `${configuredPlayers.length} players ready to play.`,
+      description: `${configuredPlayers.length} players ready to play.${getDeckNotice(deal)}`,
     });
+
+    return {
+      players: playersWithImposter,
+      imposterCount,
+      secretWord: deal.word,
+      secretCategory: deal.category,
+      playedWords: deal.playedWords,
+      currentRound: 1,
+      currentTurn: 0,
+      strokes: [],
+      ...createVotingState(),
+      ...createDiscussionState(),
+      roleAcks: [],
+      startingPlayerOffset: 0, // Reset starting player offset for first game
+      currentPhase: 'wordReveal'
+    };
+  };
+
+  const handlePlayersConfigured = (configuredPlayers: Player[]) => {
+    update(dealNewGame(configuredPlayers));
   };
 
+  // Multiplayer: each device reports its own reveal, the host moves on once
+  // every player has seen their role
   const handleWordRevealComplete = () => {
-    setGamePhase('drawing');
-    
-    if (config?.isMultiplayer && socket && roomId && config.isHost) {
-      socket.emit('phase-change', { 
-        roomId, 
-        phase: 'drawing' 
-      });
+    if (!isMultiplayer) {
+      update({ currentPhase: 'drawing', currentTurn: 0 });
+    } else if (isAuthority) {
+      if (clientId) acknowledgeRole(clientId);
+    } else if (socket && roomId) {
+      emitEvent(socket, 'player-role-ack', { roomId });
     }
   };
 
   const handleRoundComplete = (newStrokes: Stroke[]) => {
-    const updatedStrokes = [...strokes, ...newStrokes];
-    setStrokes(updatedStrokes);
-    
-    if (config?.isMultiplayer && socket && roomId && config.isHost) {
-      socket.emit('round-complete', { 
-        roomId, 
-        strokes: updatedStrokes,
-        currentRound
+    update(current => getRoundCompletePatch(current, mergeStrokes(current.strokes, newStrokes)));
+  };
+
+  // Multiplayer: the host applies the turn, everyone else reports it to the host
+  const handleTurnComplete = (turnStrokes: Stroke[]) => {
+    if (isAuthority) {
+      if (clientId) completeTurn(clientId, turnStrokes, currentRound, currentTurn);
+    } else if (socket && roomId) {
+      emitEvent(socket, 'player-turn-complete', {
+        roomId,
+        round: currentRound,
+        turn: currentTurn,
+        strokes: turnStrokes
       });
     }
-    
-    if (config && currentRound < config.roundCount) {
-      setCurrentRound(currentRound + 1);
-      
-      toast({
-        title: "Round complete!",
-        description: `Starting round ${currentRound + 1} of ${config.roundCount}`,
-      });
-      
-      if (config?.isMultiplayer && socket && roomId && config.isHost) {
-        socket.emit('next-round', { 
-          roomId, 
-          round: currentRound + 1 
-        });
-      }
-    } else {
-      setGamePhase('voting');
-      
-      if (config?.isMultiplayer && socket && roomId && config.isHost) {
-        socket.emit('phase-change', { 
-          roomId, 
-          phase: 'voting' 
-        });
-      }
+  };
+
+  // Multiplayer: the host records every message, everyone else sends theirs
+  // to the host
+  const handleSendMessage = (text: string) => {
+    if (isAuthority) {
+      if (clientId) postChatMessage(clientId, text);
+    } else if (socket && roomId) {
+      emitEvent(socket, 'player-chat', { roomId, text });
     }
   };
 
+  const handleNotesChange = (newNotes: string) => {
+    update(current => setNotes(current, newNotes));
+  };
+
+  // The host can open voting before the discussion time is up
+  const handleOpenVoting = () => {
+    update(current => current.currentPhase === 'discussion' ? { currentPhase: 'voting' } : null);
+  };
+
+  // Multiplayer: the host can end voting without waiting for everyone
+  const handleEndVoting = () => {
+    update(current => endVoting(current));
+  };
+
   const handleVotingComplete = (finalVotes: Record<number, number>) => {
-    setVotes(finalVotes);
-    setGamePhase('results');
-    
-    if (config?.isMultiplayer && socket && roomId && config.isHost) {
-      socket.emit('voting-complete', { 
-        roomId, 
-        votes: finalVotes 
-      });
-      socket.emit('phase-change', { 
-        roomId, 
-        phase: 'results' 
-      });
+    update(current => getVotingCompletePatch(current, finalVotes));
+  };
+
+  // Multiplayer: the host records the ballot, everyone else sends it to the host
+  const handleCastVote = (voteFor: number, lockIn: boolean) => {
+    if (isAuthority) {
+      if (clientId) castVote(clientId, voteFor, lockIn);
+    } else if (socket && roomId) {
+      emitEvent(socket, 'player-vote', { roomId, voteFor, lockIn });
+    }
+  };
+
+  // Multiplayer: the host records the guess, a caught imposter elsewhere
+  // sends it to the host. Local games pass the device to each guesser.
+  const handleSubmitGuess = (playerId: number, guess: string) => {
+    if (!isMultiplayer) {
+      update(current => submitWordGuess(current, playerId, guess));
+    } else if (isAuthority) {
+      if (clientId) guessWord(clientId, guess);
+    } else if (socket && roomId) {
+      emitEvent(socket, 'player-word-guess', { roomId, guess });
     }
   };
 
   const handlePlayAgain = () => {
-    // Get a new word for the next game
-    const word = getRandomWord();
-    setSecretWord(word);
-    setCurrentRound(1);
-    setStrokes([]);
-    setVotes({});
-    
     // Update the starting player offset for rotation
     const newOffset = (startingPlayerOffset + 1) % players.length;
-    setStartingPlayerOffset(newOffset);
-    
+
     // Rotate players for next game - first player becomes last, with offset
     const rotatedPlayerOrder = [...players];
     for (let i = 0; i < newOffset; i++) {
@@ -259,29 +610,32 @@ const Game: React.FC = () => {
         rotatedPlayerOrder.push(firstPlayer);
       }
     }
-    
-    // Randomly select imposter for next game
-    const imposterIndex = Math.floor(Math.random() * rotatedPlayerOrder.length);
-    const updatedPlayers = rotatedPlayerOrder.map((player, index) => ({
-      ...player,
-      isImposter: index === imposterIndex
-    }));
-    
-    setPlayers(updatedPlayers);
-    setGamePhase('wordReveal');
-    
-    if (config?.isMultiplayer && socket && roomId && config.isHost) {
-      socket.emit('play-again', { 
-        roomId, 
-        players: updatedPlayers,
-        secretWord: word,
-        startingPlayerOffset: newOffset
-      });
-    }
-    
+
+    // Randomly select imposters for next game
+    const imposterCount = getImposterCount(game.gameConfig, rotatedPlayerOrder.length);
+    const updatedPlayers = assignImposters(rotatedPlayerOrder, imposterCount);
+    const deal = dealRoomWord(updatedPlayers);
+
+    // Get a new word for the next game
+    update({
+      players: updatedPlayers,
+      imposterCount,
+      secretWord: deal.word,
+      secretCategory: deal.category,
+      playedWords: deal.playedWords,
+      currentRound: 1,
+      currentTurn: 0,
+      strokes: [],
+      ...createVotingState(),
+      ...createDiscussionState(),
+      roleAcks: [],
+      startingPlayerOffset: newOffset,
+      currentPhase: 'wordReveal'
+    });
+
     toast({
       title: "New game starting!",
-      description: "New word and roles assigned. Player order has been rotated.",
+      description: `New word and roles assigned. Player order has been rotated.${getDeckNotice(deal)}`,
     });
   };
 
@@ -289,78 +643,191 @@ const Game: React.FC = () => {
     if (config?.isMultiplayer) {
       leaveRoom();
     }
-    
+
     setConfig(null);
-    setPlayers([]);
-    setSecretWord('');
-    setCurrentRound(1);
-    setStrokes([]);
-    setVotes({});
-    setGamePhase('setup');
-    setStartingPlayerOffset(0);
+    reset({
+      ...createGameRoom('', ''),
+      timerEnabled,
+      timerDuration
+    });
   };
 
+  const isWaitingForHost = isMultiplayer && !isAuthority &&
+    (gamePhase === 'setup' || gamePhase === 'playerConfig');
+  // Joined after the lobby closed, or was not ready when the host started.
+  // Spectators watch every phase instead.
+  const isSittingOut = isMultiplayer && !localPlayer && !isSpectator &&
+    gamePhase !== 'setup' && gamePhase !== 'playerConfig' && gamePhase !== 'lobby';
+
   return (
     <div className="min-h-screen">
-      {gamePhase === 'setup' && (
-        <GameSetup 
-          onConfigSubmit={handleConfigSubmit} 
+      {gamePhase === 'setup' && !isWaitingForHost && (
+        <GameSetup
+          onConfigSubmit={handleConfigSubmit}
           initialTimerDuration={timerDuration}
           initialTimerEnabled={timerEnabled}
+          initialDiscussionDuration={discussionDuration}
+          inviteRoomId={inviteRoomId}
+          onInviteHandled={() => setInviteRoomId(null)}
         />
       )}
-      
-      {gamePhase === 'playerConfig' && config && (
-        <PlayerConfig 
+
+      {isWaitingForHost && (
+        <div className="flex items-center justify-center min-h-screen p-4">
+          <Card className="w-full max-w-md animate-fade-in">
+            <CardHeader>
+              <CardTitle className="text-2xl font-bold text-center">Room {roomId}</CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-col items-center space-y-4">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              <p className="text-muted-foreground">Waiting for the host to start the game...</p>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {isSittingOut && (
+        <div className="flex items-center justify-center min-h-screen p-4">
+          <Card className="w-full max-w-md animate-fade-in">
+            <CardHeader>
+              <CardTitle className="text-2xl font-bold text-center">Room {roomId}</CardTitle>
+            </CardHeader>
+            <CardContent className="flex flex-col items-center space-y-4">
+              <Loader2 className="h-8 w-8 animate-spin text-primary" />
+              <p className="text-muted-foreground text-center">
+                A game is in progress without you. Hang tight until it finishes.
+              </p>
+              <Button variant="outline" onClick={handleReturnHome}>Leave room</Button>
+            </CardContent>
+          </Card>
+        </div>
+      )}
+
+      {gamePhase === 'lobby' && isMultiplayer && roomId && (
+        <Lobby
+          roomId={roomId}
+          players={players}
+          gameConfig={game.gameConfig}
+          timerEnabled={timerEnabled}
+          timerDuration={timerDuration}
+          localClientId={clientId}
+          hostClientId={game.hostId}
+          isHost={isAuthority}
+          isRoomLocked={isRoomLocked}
+          isSpectator={isSpectator}
+          onNameChange={handleLobbyNameChange}
+          onReadyChange={handleLobbyReadyChange}
+          onStart={handleLobbyStart}
+          onLeave={handleReturnHome}
+          onKick={handleKickPlayer}
+          onTransferHost={handleTransferHost}
+          onLockChange={handleLockChange}
+        />
+      )}
+
+      {gamePhase === 'playerConfig' && config && isAuthority && (
+        <PlayerConfig
           config={config}
           onPlayersConfigured={handlePlayersConfigured}
           isMultiplayer={config.isMultiplayer}
         />
       )}
-      
-      {gamePhase === 'wordReveal' && players.length > 0 && (
-        <WordReveal 
+
+      {gamePhase === 'wordReveal' && players.length > 0 && !isSittingOut && (
+        <WordReveal
           players={players}
           secretWord={secretWord}
           onComplete={handleWordRevealComplete}
-          isMultiplayer={config?.isMultiplayer}
+          isMultiplayer={isMultiplayer}
+          localPlayerId={localPlayer?.id}
+          isSpectator={isSpectator}
+          acknowledgedPlayerIds={roleAcks}
+          impostersKnowEachOther={!!game.gameConfig?.impostersKnowEachOther}
+          secretCategory={secretCategory}
+          categoryHint={!!game.gameConfig?.categoryHint}
         />
       )}
-      
-      {gamePhase === 'drawing' && config && (
+
+      {gamePhase === 'drawing' && players.length > 0 && !isSittingOut && (
         <DrawingCanvas
           key={`drawing-round-${currentRound}`}
           players={players}
           currentRound={currentRound}
-          totalRounds={config.roundCount}
+          totalRounds={roundCount}
           secretWord={secretWord}
           previousStrokes={strokes}
           onRoundComplete={handleRoundComplete}
-          isMultiplayer={config.isMultiplayer}
+          isMultiplayer={isMultiplayer}
+          currentTurn={currentTurn}
+          localPlayerId={localPlayer?.id}
+          onTurnComplete={handleTurnComplete}
           timerEnabled={timerEnabled}
           timerDuration={timerDuration}
+          turnTimer={isSameTurn(turnTimer, { phase: 'drawing', round: currentRound, turn: currentTurn, drawerId: players[currentTurn]?.id }) ? turnTimer : null}
+        />
+      )}
+
+      {gamePhase === 'discussion' && !isSittingOut && (
+        <Discussion
+          players={players}
+          strokes={strokes}
+          isMultiplayer={isMultiplayer}
+          localPlayerId={localPlayer?.id}
+          isSpectator={isSpectator}
+          canOpenVoting={isAuthority}
+          chat={chat}
+          notes={notes}
+          discussionDuration={discussionDuration}
+          turnTimer={isSameTurn(turnTimer, { phase: 'discussion', round: currentRound, turn: currentTurn }) ? turnTimer : null}
+          onSendMessage={handleSendMessage}
+          onNotesChange={handleNotesChange}
+          onOpenVoting={handleOpenVoting}
         />
       )}
-      
-      {gamePhase === 'voting' && (
+
+      {gamePhase === 'voting' && !isSittingOut && (
         <Voting
           players={players}
           secretWord={secretWord}
           strokes={strokes}
           onVotingComplete={handleVotingComplete}
-          isMultiplayer={config?.isMultiplayer}
+          isMultiplayer={isMultiplayer}
+          localPlayerId={localPlayer?.id}
+          ballots={ballots}
+          votedPlayerIds={votedPlayerIds}
+          lockedPlayerIds={lockedPlayerIds}
+          isSpectator={isSpectator}
+          onCastVote={handleCastVote}
+          canEndVoting={isAuthority}
+          onEndVoting={handleEndVoting}
+          imposterCount={imposterCount}
+        />
+      )}
+
+      {gamePhase === 'imposterGuess' && !isSittingOut && (
+        <WordGuess
+          players={players}
+          guessingPlayerIds={guessingPlayerIds}
+          wordGuesses={wordGuesses}
+          isMultiplayer={isMultiplayer}
+          localPlayerId={localPlayer?.id}
+          onSubmitGuess={handleSubmitGuess}
         />
       )}
-      
-      {gamePhase === 'results' && (
+
+      {gamePhase === 'results' && !isSittingOut && (
         <Results
           players={players}
           votes={votes}
           secretWord={secretWord}
+          secretCategory={secretCategory}
           onPlayAgain={handlePlayAgain}
           onReturnHome={handleReturnHome}
-          isMultiplayer={config?.isMultiplayer}
-          strokes={strokes} // Pass strokes to show final drawing 
+          isMultiplayer={isMultiplayer}
+          canPlayAgain={isAuthority}
+          imposterCount={imposterCount}
+          wordGuesses={wordGuesses}
+          strokes={strokes} // Pass strokes to show final drawing
         />
       )}
     </div>
@@ -6,6 +6,10 @@ export interface Player {
   isImposter?: boolean;
   isOnline?: boolean;
   socketId?: string;
+  // Stable id of the device playing this seat, survives reconnects
+  clientId?: string;
+  // Multiplayer lobby only
+  isReady?: boolean;
 }
 
 export interface GameConfig {
@@ -16,9 +20,43 @@ export interface GameConfig {
   roomId?: string;
   timerEnabled?: boolean;
   timerDuration?: number;
+  // Seconds to talk before voting opens; untimed when left out
+  discussionDuration?: number;
+  // Imposters per game, 1 when left out, see src/lib/imposters.ts
+  imposterCount?: number;
+  // Imposters are shown who the other imposters are
+  impostersKnowEachOther?: boolean;
+  // Where the secret word is drawn from, see src/data/wordPacks.ts
+  wordPackId?: string;
+  // The host's own pack when it is the one picked, so every player has it
+  customWordPack?: WordPack;
+  // Imposters are shown the category of the secret word
+  categoryHint?: boolean;
+}
+
+export type WordDifficulty = 'easy' | 'medium' | 'hard';
+
+export interface WordCategory {
+  name: string;
+  words: string[];
+}
+
+export interface WordPack {
+  id: string;
+  name: string;
+  description?: string;
+  difficulty: WordDifficulty;
+  // BCP 47 tag of the language the words are written in
+  locale: string;
+  tags: string[];
+  categories: WordCategory[];
 }
 
 export interface Stroke {
+  // Unique per stroke, so the same stroke is never merged twice
+  id?: string;
+  // Points and width are on the grid of src/lib/drawing-stream.ts, the same
+  // whatever the size of the canvas the stroke was drawn on
   points: {x: number, y: number}[];
   color: string;
   width: number;
@@ -29,17 +67,35 @@ export interface Stroke {
 export type GamePhase = 
   | 'setup' 
   | 'playerConfig' 
+  | 'lobby' 
   | 'wordReveal' 
   | 'drawing' 
+  | 'discussion' 
   | 'voting' 
+  | 'imposterGuess' 
   | 'results';
 
+// One batch of a live stroke, see src/lib/drawing-stream.ts
 export interface DrawingAction {
-  type: 'start' | 'move' | 'end';
-  point?: {x: number, y: number};
+  // 'remove' takes back a stroke its drawer undid
+  type: 'start' | 'move' | 'end' | 'remove';
+  // Quantised coordinates: the first point in full, the rest as deltas
+  points?: number[];
   playerId: number;
   color: string;
-  strokeId?: string;
+  // Line width on the grid
+  width: number;
+  strokeId: string;
+  // Batch number within the stroke, starting at 0
+  seq: number;
+}
+
+// A message in the room chat during the discussion, see src/lib/discussion.ts
+export interface ChatMessage {
+  id: string;
+  playerId: number;
+  text: string;
+  timestamp: number;
 }
 
 export interface GameRoom {
@@ -49,8 +105,51 @@ export interface GameRoom {
   gameConfig?: GameConfig;
   currentPhase: GamePhase;
   secretWord?: string;
+  // Category of the secret word in its word pack
+  secretCategory?: string;
+  // Words of earlier games dealt from the group's deck since it was last
+  // shuffled, so a new host does not deal them again
+  playedWords?: string[];
   strokes: Stroke[];
   votes?: Record<number, number>;
+  // Multiplayer voting, by voter seat: who each player currently votes for,
+  // who has voted at all and whose vote is final
+  ballots?: Record<number, number>;
+  votedPlayerIds?: number[];
+  lockedPlayerIds?: number[];
+  // Caught imposters get one guess at the word before the results, see
+  // src/lib/word-guess.ts: who is guessing, and their guesses by seat
+  guessingPlayerIds?: number[];
+  wordGuesses?: Record<number, string>;
+  // Multiplayer: ids of players who have seen their role on their own device
+  roleAcks?: number[];
   timerEnabled?: boolean;
   timerDuration?: number;
+  // The discussion before voting: its length in seconds (untimed when left
+  // out), the room chat, and the shared notes pad of local games
+  discussionDuration?: number;
+  chat?: ChatMessage[];
+  notes?: string;
+  // How many imposters are in the current game, public to every player
+  imposterCount?: number;
+  currentRound: number;
+  currentTurn: number;
+  startingPlayerOffset: number;
+  // Bumped by the host on every change so clients can apply updates in order
+  version: number;
+}
+
+export type GameRoomPatch = Partial<Omit<GameRoom, 'id' | 'version'>>;
+
+// Full copy of the host's game state, sent on join and on resync
+export interface GameStateSnapshot {
+  roomId: string;
+  state: GameRoom;
+}
+
+// A single change made by the host, taking the state to `version`
+export interface GameStateDelta {
+  roomId: string;
+  version: number;
+  patch: GameRoomPatch;
 }